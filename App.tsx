@@ -1,24 +1,65 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, AppData, VoiceType, StudentProfile, SenderType, CommunicationOption } from './types';
+import { ChatMessage, AppData, VoiceType, StudentProfile, SenderType, CommunicationOption, OutboxEntry, HighStakesFlag, HighStakesTopic, IncidentEntry } from './types';
 import InputArea from './components/InputArea';
 import ProfileModal from './components/ProfileModal';
 import OptionSelector from './components/OptionSelector';
 import ConfirmationModal from './components/ConfirmationModal';
 import Sidebar from './components/Sidebar';
-import { translateText, generateSpeech, generateCommunicationOptions, generateGuideBook } from './services/geminiService';
+import LockScreen from './components/LockScreen';
+import ImportWizard from './components/ImportWizard';
+import TranscriptExportModal from './components/TranscriptExportModal';
+import AudioExportModal from './components/AudioExportModal';
+import BroadcastModal from './components/BroadcastModal';
+import FidelityPanel from './components/FidelityPanel';
+import HighStakesWarning from './components/HighStakesWarning';
+import HighStakesBanner from './components/HighStakesBanner';
+import SafeguardingAlert from './components/SafeguardingAlert';
+import { translateText, generateCommunicationOptions, generateGuideBook, checkTranslationFidelity } from './services/geminiService';
+import { getMessageSpeech } from './services/speech';
 import { playGeminiAudio, playLocalAudio } from './services/audioUtils';
+import {
+  loadAppData, loadChatHistory, loadAllChats, persistChanges, replaceAllData, migrateFromLocalStorage,
+  getLockState, getEncryptionSettings, unlockStorage, lockStorage, setPassphrase, setAutoLockMinutes, eraseAllData,
+  EncryptionSettings
+} from './services/storage';
 
-const STORAGE_KEY_DATA = 'teacher_aid_data_v1';
-const STORAGE_KEY_OLD = 'teacher_aid_profile';
+import { SCHEMA_VERSION, SchemaError, upgradeAppData, describeSchemaError } from './services/schema';
+import { createEncryptedBackup } from './services/backupFile';
+import { mergeChats } from './services/backupMerge';
+import { toAIError, describeAIErrorKind } from './services/aiErrors';
+import { createSensitivityTag } from './services/sensitivities';
+import { needsTranslation } from './services/communicationMode';
+import { recordRevision } from './services/profileHistory';
+import { generateId } from './services/ids';
+import { queueProposedChanges, countPendingChanges } from './services/profileReview';
+import { canCheckFidelity, shouldCheckFidelity, isDivergent } from './services/fidelity';
+import { detectHighStakesTopics, mergeHighStakes, needsAcknowledgement } from './services/highStakes';
+import { getLanguageDirection } from './services/languages';
+import { DEFAULT_SAFEGUARDING_SETTINGS, detectDisclosure } from './services/safeguarding';
+import { IncidentDraft, createIncidentEntry, createIncidentId, getIncidentEntries } from './services/incidentLog';
+import { getActiveClass, getVisibleStudents, getClassForStudent, getTeacherNameFor, scopeToClass } from './services/classes';
+
+// Any of these counts as the teacher still being at the machine
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'scroll'];
 
 const INITIAL_DATA: AppData = {
+  schemaVersion: SCHEMA_VERSION,
   teacherName: 'Teacher',
   preferredVoice: VoiceType.AI,
   students: [],
   currentStudentId: '',
-  chats: {}
+  chats: {},
+  classes: [],
+  activeClassId: '',
+  outbox: [],
+  checkFidelity: false,
+  safeguarding: DEFAULT_SAFEGUARDING_SETTINGS,
+  incidentLog: []
 };
 
+// Message ids are only unique within one student's chat
+const streamKey = (studentId: string, messageId: string) => `${studentId}/${messageId}`;
+
 const App: React.FC = () => {
   const [appData, setAppData] = useState<AppData>(INITIAL_DATA);
   const [isLoading, setIsLoading] = useState(false);
@@ -28,7 +69,13 @@ const App: React.FC = () => {
   
   // AI Assist Flow State
   const [generatedOptions, setGeneratedOptions] = useState<CommunicationOption[] | null>(null);
-  const [pendingIntent, setPendingIntent] = useState<string | null>(null);
+  const [pendingIntent, setPendingIntent] = useState<{ text: string; checkMeaning: boolean; highStakes?: HighStakesFlag } | null>(null);
+  // A message waiting for the teacher to acknowledge the interpreter warning
+  const [pendingHighStakes, setPendingHighStakes] = useState<{
+    text: string; sender: SenderType; useAiAssist: boolean; checkMeaning: boolean; topics: HighStakesTopic[]
+  } | null>(null);
+  // A broadcast waiting for the same acknowledgement
+  const [pendingBroadcastHighStakes, setPendingBroadcastHighStakes] = useState<{ text: string; topics: HighStakesTopic[] } | null>(null);
   
   // Analyzing State (Background)
   const [isAnalyzingProfile, setIsAnalyzingProfile] = useState(false);
@@ -36,65 +83,199 @@ const App: React.FC = () => {
   // Message Insight Modal State
   const [inspectingMessage, setInspectingMessage] = useState<ChatMessage | null>(null);
 
+  // Backup being reviewed in the import wizard
+  const [pendingImport, setPendingImport] = useState<{ current: AppData; incoming: AppData } | null>(null);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [audioExportMessageId, setAudioExportMessageId] = useState<string | null>(null);
+  // Translations in flight, keyed by streamKey. The text streams in here rather than into
+  // appData so that every token does not trigger a database write.
+  const [streamingText, setStreamingText] = useState<Record<string, string>>({});
+  // Messages whose back-translation is being checked, by streamKey
+  const [checkingFidelity, setCheckingFidelity] = useState<string[]>([]);
+  // Messages whose last check failed, by streamKey; a failed check never counts as passed
+  const [failedFidelity, setFailedFidelity] = useState<string[]>([]);
+  const translationControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Recipients of a broadcast and, once sent, the message created in each of their chats
+  const [broadcast, setBroadcast] = useState<{ studentIds: string[]; text?: string; messageIds?: Record<string, string> } | null>(null);
+  // Messages written offline wait in appData.outbox until the connection returns
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const isDrainingOutboxRef = useRef(false);
+  // Incident whose safeguarding alert is open
+  const [safeguardingIncidentId, setSafeguardingIncidentId] = useState<string | null>(null);
+  // Each log entry hashes the one before, so appends are chained one after another
+  const incidentLogRef = useRef<IncidentEntry[]>([]);
+  const incidentQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Encryption at rest
+  const [isLocked, setIsLocked] = useState(false);
+  const [encryptionSettings, setEncryptionSettings] = useState<EncryptionSettings>({ enabled: false, autoLockMinutes: 0 });
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Derived state
   const currentStudent = appData.students.find(s => s.id === appData.currentStudentId);
   const messages = (currentStudent && appData.chats[currentStudent.id]) ? appData.chats[currentStudent.id] : [];
+  const activeClass = getActiveClass(appData);
+  const pendingReviewCount = countPendingChanges(appData.students);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Last snapshot written to IndexedDB; null until the initial load has finished
+  const persistedDataRef = useRef<AppData | null>(null);
+  // Students whose stored history has been read this session. A chat can be in memory without
+  // it, e.g. when a broadcast added a message before the student was opened.
+  const loadedChatIdsRef = useRef<Set<string>>(new Set());
 
   // Load and Migrate Data
-  useEffect(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY_DATA);
-    if (savedData) {
-      try {
-        setAppData(JSON.parse(savedData));
-        return; // Successfully loaded new format
-      } catch (e) {
-        console.error("Failed to parse app data", e);
+  const hydrate = async () => {
+    try {
+      const data = await loadAppData() || await migrateFromLocalStorage();
+      if (data) {
+        persistedDataRef.current = data;
+        loadedChatIdsRef.current = new Set(Object.keys(data.chats));
+        setAppData(data);
+        return;
+      }
+    } catch (e) {
+      console.error("Failed to load app data", e);
+      if (e instanceof SchemaError) {
+        // Leave the stored data untouched (no snapshot means nothing is saved) until a backup is restored
+        alert(`Your saved data could not be loaded and has not been changed.\n\n${describeSchemaError(e)}\n\nYou can restore a backup from Settings > Data.`);
+        setIsModalOpen(true);
+        return;
       }
     }
+    persistedDataRef.current = INITIAL_DATA;
+    loadedChatIdsRef.current = new Set();
+    setIsModalOpen(true);
+  };
 
-    // Migration fallback
-    const oldProfile = localStorage.getItem(STORAGE_KEY_OLD);
-    if (oldProfile) {
+  useEffect(() => {
+    const init = async () => {
       try {
-        const parsed = JSON.parse(oldProfile);
-        const newStudentId = 'migrated_student';
-        const newStudent: StudentProfile = {
-          id: newStudentId,
-          name: parsed.childName || 'Student',
-          language: parsed.childLanguage || 'Spanish',
-          age: parsed.childAge || 7,
-          sensitivities: parsed.sensitivities || ''
-        };
-        
-        const newData: AppData = {
-          teacherName: parsed.teacherName || 'Teacher',
-          preferredVoice: parsed.preferredVoice || VoiceType.AI,
-          students: [newStudent],
-          currentStudentId: newStudentId,
-          chats: { [newStudentId]: [] }
-        };
-        
-        setAppData(newData);
-        localStorage.setItem(STORAGE_KEY_DATA, JSON.stringify(newData));
+        setEncryptionSettings(await getEncryptionSettings());
+        if (await getLockState() === 'locked') {
+          setIsLocked(true);
+          return;
+        }
       } catch (e) {
-        console.error("Failed to migrate old profile");
-        setIsModalOpen(true);
+        console.error("Failed to read encryption state", e);
       }
-    } else {
-       setIsModalOpen(true);
-    }
+      await hydrate();
+    };
+    init();
   }, []);
 
-  // Save on change
+  // Persist whatever changed since the last write
+  useEffect(() => {
+    const prev = persistedDataRef.current;
+    if (!prev || prev === appData) return;
+    persistedDataRef.current = appData;
+    persistChanges(prev, appData).catch(e => console.error("Failed to save app data", e));
+  }, [appData]);
+
+  useEffect(() => {
+    incidentLogRef.current = appData.incidentLog;
+  }, [appData.incidentLog]);
+
+  // Save on change. The settings form holds a copy of the data from when it was opened,
+  // so the incident log is taken from the live state instead: it only ever grows.
   const saveAppData = (newData: AppData) => {
-    setAppData(newData);
-    localStorage.setItem(STORAGE_KEY_DATA, JSON.stringify(newData));
+    setAppData(prev => ({ ...newData, incidentLog: prev.incidentLog }));
+  };
+
+  // --- Locking ---
+
+  const handleUnlock = async (passphrase: string) => {
+    const success = await unlockStorage(passphrase);
+    if (success) {
+      setIsLocked(false);
+      await hydrate();
+    }
+    return success;
+  };
+
+  const handleLock = () => {
+    lockStorage();
+    translationControllersRef.current.forEach(controller => controller.abort());
+    // Drop decrypted data from memory; clearing the snapshot first stops the save effect
+    persistedDataRef.current = null;
+    setAppData(INITIAL_DATA);
+    setIsModalOpen(false);
+    setIsSidebarOpen(false);
+    setGeneratedOptions(null);
+    setPendingIntent(null);
+    setPendingHighStakes(null);
+    setInspectingMessage(null);
+    setIsTranscriptOpen(false);
+    setAudioExportMessageId(null);
+    setBroadcast(null);
+    setPendingBroadcastHighStakes(null);
+    setSafeguardingIncidentId(null);
+    setIsLocked(true);
+  };
+
+  const handleErase = async () => {
+    await eraseAllData();
+    persistedDataRef.current = INITIAL_DATA;
+    setAppData(INITIAL_DATA);
+    setEncryptionSettings(await getEncryptionSettings());
+    setIsLocked(false);
+    setIsModalOpen(true);
+  };
+
+  const handleSetPassphrase = async (passphrase: string | null) => {
+    await setPassphrase(passphrase);
+    setEncryptionSettings(await getEncryptionSettings());
+  };
+
+  const handleSetAutoLock = async (minutes: number) => {
+    await setAutoLockMinutes(minutes);
+    setEncryptionSettings(await getEncryptionSettings());
+  };
+
+  // Auto-lock after a period without any interaction
+  useEffect(() => {
+    if (!encryptionSettings.enabled || !encryptionSettings.autoLockMinutes || isLocked) return;
+
+    let timer: number | undefined;
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, encryptionSettings.autoLockMinutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    resetTimer();
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [encryptionSettings, isLocked]);
+
+  // Reads the histories not loaded yet and merges them with any messages added in the meantime.
+  // Returns what was read, by student.
+  const loadChatHistories = async (studentIds: string[]): Promise<Record<string, ChatMessage[]>> => {
+    const missing = studentIds.filter(id => !loadedChatIdsRef.current.has(id));
+    if (missing.length === 0) return {};
+    const histories = await Promise.all(missing.map(id => loadChatHistory(id)));
+    missing.forEach(id => loadedChatIdsRef.current.add(id));
+    setAppData(prev => {
+      const chats = { ...prev.chats };
+      missing.forEach((id, i) => { chats[id] = mergeChats(chats[id] || [], histories[i]); });
+      return { ...prev, chats };
+    });
+    return Object.fromEntries(missing.map((id, i) => [id, histories[i]]));
+  };
+
+  // Chat histories are loaded on demand the first time a student is opened
+  const ensureChatLoaded = async (studentId: string) => {
+    try {
+      await loadChatHistories([studentId]);
+    } catch (e) {
+      console.error("Failed to load chat history", e);
+    }
   };
 
   // --- Background AI Analysis ---
@@ -119,12 +300,12 @@ const App: React.FC = () => {
       
       setAppData(prev => ({
         ...prev,
-        students: prev.students.map(s => s.id === studentId ? {
+        // The guidebook is replaced (and can be rolled back); tag changes wait for the teacher's review
+        students: prev.students.map(s => s.id === studentId ? queueProposedChanges(recordRevision({
           ...s,
-          sensitivities: result.updatedSensitivities,
           guideBook: result.guide,
           lastAnalyzedIndex: chats.length
-        } : s)
+        }, 'ai'), result.proposedChanges, chats) : s)
       }));
       console.log(`Updated profile for ${student.name}`);
     } catch (e) {
@@ -138,68 +319,141 @@ const App: React.FC = () => {
     // 1. Trigger background analysis for the OLD student if valid
     if (currentStudent && currentStudent.id !== newStudentId) {
       // Don't await this, let it run in background
-      analyzeStudentProfile(currentStudent.id).then(() => {
-        // Persist to local storage after background update finishes
-        // Note: This relies on the setAppData inside analyzeStudentProfile triggering a render/save cycle
-        // However, since state updates are async, we might need to manually save inside the effect or rely on the user's next action.
-        // For now, the user might see the spinner.
-      });
+      // The profile update is persisted by the save effect once it lands in state
+      analyzeStudentProfile(currentStudent.id);
     }
 
     // 2. Switch immediately
     setAppData(prev => ({ ...prev, currentStudentId: newStudentId }));
     setIsSidebarOpen(false);
+    ensureChatLoaded(newStudentId);
+  };
+
+  const handleClassChange = (classId: string) => {
+    setAppData(prev => ({ ...prev, activeClassId: classId }));
+
+    // Open someone from the new class if the current student is not on its roster
+    const classGroup = appData.classes.find(c => c.id === classId);
+    if (classGroup && !classGroup.studentIds.includes(appData.currentStudentId)) {
+      const firstStudent = appData.students.find(s => classGroup.studentIds.includes(s.id));
+      if (firstStudent) handleStudentSwitch(firstStudent.id);
+    }
   };
 
   // --- Actions ---
 
-  const handleSendMessage = async (text: string, sender: SenderType, useAiAssist: boolean = false) => {
+  // `checkMeaning` forces a back-translation fidelity check, e.g. for high-stakes messages
+  const handleSendMessage = async (text: string, sender: SenderType, useAiAssist: boolean = false, checkMeaning: boolean = false) => {
     if (!currentStudent) {
       alert("Please select or create a student profile first.");
       setIsModalOpen(true);
       return;
     }
 
+    // High-stakes topics need the interpreter warning acknowledged before anything is sent
+    const topics = detectHighStakesTopics(text);
+    if (topics.length > 0) {
+      setPendingHighStakes({ text, sender, useAiAssist, checkMeaning, topics });
+      return;
+    }
+    await sendMessage(currentStudent, text, sender, useAiAssist, checkMeaning);
+  };
+
+  const handleConfirmHighStakes = () => {
+    if (!pendingHighStakes || !currentStudent) return;
+    const { text, sender, useAiAssist, checkMeaning, topics } = pendingHighStakes;
+    const now = Date.now();
+    setPendingHighStakes(null);
+    sendMessage(currentStudent, text, sender, useAiAssist, checkMeaning, { topics, detectedAt: now, acknowledgedAt: now });
+  };
+
+  const sendMessage = async (
+    student: StudentProfile,
+    text: string,
+    sender: SenderType,
+    useAiAssist: boolean,
+    requestedCheck: boolean,
+    highStakes?: HighStakesFlag
+  ) => {
+    // What the student reads about a high-stakes topic is always checked
+    const checkMeaning = requestedCheck || !!highStakes;
+
     setIsLoading(true);
 
     if (sender === 'teacher' && useAiAssist) {
       // FLOW 1: AI Assistance Mode (Generate Options)
+      if (!navigator.onLine) {
+        // Options need the AI right now; queue the intent as a direct translation instead
+        await processDirectTranslation(text, sender, student, { checkMeaning, highStakes });
+        setIsLoading(false);
+        return;
+      }
       try {
         const options = await generateCommunicationOptions(
           text,
-          appData.teacherName,
-          currentStudent,
-          messages
+          getTeacherNameFor(appData, student.id),
+          student,
+          messages,
+          getClassForStudent(appData, student.id)
         );
         setGeneratedOptions(options);
-        setPendingIntent(text); // Keep track of what the teacher originally intended
+        setPendingIntent({ text, checkMeaning, highStakes }); // Keep track of what the teacher originally intended
       } catch (e) {
         console.error("Failed to generate options", e);
-        alert("Sorry, I couldn't generate options. Switching to direct translation.");
+        alert(`Sorry, I couldn't generate options. Switching to direct translation.\n\n${toAIError(e).message}`);
         // Fallback to direct translation
-        await processDirectTranslation(text, sender, currentStudent);
+        await processDirectTranslation(text, sender, student, { checkMeaning, highStakes });
       } finally {
         setIsLoading(false);
       }
 
     } else {
       // FLOW 2: Direct Translation Mode (Interpreter)
-      await processDirectTranslation(text, sender, currentStudent);
+      await processDirectTranslation(text, sender, student, { checkMeaning, highStakes });
       setIsLoading(false);
     }
   };
 
-  const processDirectTranslation = async (text: string, sender: SenderType, student: StudentProfile) => {
-    const newMessageId = Date.now().toString();
+  // Hands-free turns are always translated directly: nobody is looking at the screen to pick
+  // an AI Assist option. The translation can be played as soon as it arrives.
+  const handleConversationTurn = async (text: string, sender: SenderType, autoPlay: boolean) => {
+    if (!currentStudent) return;
+    const student = currentStudent;
+
+    // Nobody confirms a warning mid-conversation; a flagged turn waits for acknowledgement instead of auto-playing
+    const topics = detectHighStakesTopics(text);
+    const highStakes = topics.length > 0 ? { topics, detectedAt: Date.now() } : undefined;
+
+    setIsLoading(true);
+    // Playback starts before loading ends, so listening does not resume in between
+    await processDirectTranslation(text, sender, student, {
+      highStakes,
+      onTranslated: autoPlay ? message => { handlePlayAudio(message, student); } : undefined
+    });
+    setIsLoading(false);
+  };
+
+  const processDirectTranslation = async (
+    text: string,
+    sender: SenderType,
+    student: StudentProfile,
+    options: { checkMeaning?: boolean; highStakes?: HighStakesFlag; onTranslated?: (message: ChatMessage) => void } = {}
+  ): Promise<string> => {
+    const newMessageId = generateId();
+
+    const isOffline = !navigator.onLine;
 
     // Optimistic message
     const tempMessage: ChatMessage = {
       id: newMessageId,
       originalText: text,
-      translatedText: 'Adapting...',
+      translatedText: isOffline ? '' : 'Adapting...',
       timestamp: Date.now(),
       isLoadingAudio: false,
-      sender: sender
+      sender: sender,
+      ...(isOffline && { status: 'pending' as const }),
+      ...(options.checkMeaning && { checkMeaning: true }),
+      ...(options.highStakes && { highStakes: options.highStakes })
     };
 
     setAppData(prev => ({
@@ -207,41 +461,306 @@ const App: React.FC = () => {
       chats: {
         ...prev.chats,
         [student.id]: [...(prev.chats[student.id] || []), tempMessage]
+      },
+      outbox: isOffline ? [...prev.outbox, { studentId: student.id, messageId: newMessageId }] : prev.outbox
+    }));
+
+    if (!isOffline) {
+      const translated = await runTranslation(tempMessage, student);
+      if (translated) options.onTranslated?.(translated);
+    }
+    return newMessageId;
+  };
+
+  // Translates an existing message in place, streaming the text into its bubble.
+  // If the connection drops on the way, the message goes (back) into the outbox.
+  const runTranslation = async (message: ChatMessage, student: StudentProfile): Promise<ChatMessage | null> => {
+    const isOutboxEntry = (entry: OutboxEntry) => entry.studentId === student.id && entry.messageId === message.id;
+    const updateMessage = (update: (msg: ChatMessage) => ChatMessage) => setAppData(prev => ({
+      ...prev,
+      chats: {
+        ...prev.chats,
+        [student.id]: (prev.chats[student.id] || []).map(msg => msg.id === message.id ? update(msg) : msg)
       }
     }));
 
+    const key = streamKey(student.id, message.id);
+    const controller = new AbortController();
+    translationControllersRef.current.set(key, controller);
+    setStreamingText(prev => ({ ...prev, [key]: '' }));
+
     try {
-      const result = await translateText(text, appData.teacherName, student, sender);
-      
-      setAppData(prev => ({
-        ...prev,
-        chats: {
-          ...prev.chats,
-          [student.id]: prev.chats[student.id].map(msg => 
-            msg.id === newMessageId 
-              ? { 
-                  ...msg, 
-                  translatedText: result.translation, 
-                  culturalNote: result.culturalNote 
-                } 
-              : msg
-          )
+      const result = await translateText(
+        message.originalText,
+        getTeacherNameFor(appData, student.id),
+        student,
+        message.sender,
+        getClassForStudent(appData, student.id),
+        {
+          signal: controller.signal,
+          onPartial: (partial) => setStreamingText(prev => key in prev ? { ...prev, [key]: partial } : prev)
         }
-      }));
+      );
+
+      // Student messages are screened once; a retranslation does not open a second incident
+      const disclosure = message.sender === 'student' && !message.safeguardingIncidentId
+        ? detectDisclosure(message.originalText, result.translation, result.possibleDisclosure)
+        : null;
+      const incidentId = disclosure ? createIncidentId() : undefined;
+
+      // The AI's high-stakes topics can add to what the keyword check found before sending
+      const applyResult = (msg: ChatMessage): ChatMessage => {
+        const { status, errorKind, ...rest } = msg;
+        const highStakes = mergeHighStakes(msg.highStakes, result.highStakesTopics);
+        return {
+          ...rest,
+          translatedText: result.translation,
+          culturalNote: result.culturalNote,
+          ...(highStakes && { highStakes }),
+          ...(incidentId && { safeguardingIncidentId: incidentId })
+        };
+      };
+      updateMessage(applyResult);
+      setAppData(prev => ({ ...prev, outbox: prev.outbox.filter(entry => !isOutboxEntry(entry)) }));
+      const translated = applyResult(message);
+      if (disclosure && incidentId) {
+        setSafeguardingIncidentId(incidentId);
+        appendIncidentEntry({
+          incidentId,
+          type: 'disclosure',
+          timestamp: Date.now(),
+          studentId: student.id,
+          studentName: student.name,
+          teacherName: getTeacherNameFor(appData, student.id),
+          messageId: message.id,
+          language: student.language,
+          originalText: message.originalText,
+          translatedText: result.translation,
+          reason: disclosure
+        }).catch(e => console.error("Failed to record safeguarding disclosure", e));
+      }
+      if (shouldCheckFidelity(translated, student, appData.checkFidelity)) runFidelityCheck(translated, student);
+      return translated;
     } catch (error) {
-      console.error("Translation failed", error);
+      if (controller.signal.aborted) {
+        // Cancelled by the teacher: the unfinished message is dropped
+        handleDiscardMessage(student.id, message.id);
+      } else if (!navigator.onLine) {
+        // Keeps its place if it was already queued
+        updateMessage(msg => ({ ...msg, translatedText: '', status: 'pending' }));
+        setAppData(prev => ({
+          ...prev,
+          outbox: prev.outbox.some(isOutboxEntry) ? prev.outbox : [...prev.outbox, { studentId: student.id, messageId: message.id }]
+        }));
+      } else {
+        // The error is kept out of translatedText so it never reaches transcripts or the guidebook
+        updateMessage(msg => ({ ...msg, translatedText: '', status: 'failed', errorKind: toAIError(error).kind }));
+        setAppData(prev => ({ ...prev, outbox: prev.outbox.filter(entry => !isOutboxEntry(entry)) }));
+      }
+      return null;
+    } finally {
+      translationControllersRef.current.delete(key);
+      setStreamingText(prev => {
+        const { [key]: _finished, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Runs alongside the chat; the result is shown under the message once both requests are back
+  const runFidelityCheck = async (message: ChatMessage, student: StudentProfile) => {
+    const key = streamKey(student.id, message.id);
+    setCheckingFidelity(prev => prev.includes(key) ? prev : [...prev, key]);
+    setFailedFidelity(prev => prev.filter(k => k !== key));
+    try {
+      const fidelity = await checkTranslationFidelity(message.originalText, message.translatedText, student);
       setAppData(prev => ({
         ...prev,
         chats: {
           ...prev.chats,
-          [student.id]: prev.chats[student.id].map(msg => 
-            msg.id === newMessageId 
-              ? { ...msg, translatedText: "Sorry, I couldn't process that." } 
-              : msg
-          )
+          [student.id]: (prev.chats[student.id] || []).map(m => m.id === message.id ? { ...m, fidelity } : m)
         }
       }));
+    } catch (error) {
+      // The message itself is fine; the check can be started again from its action row
+      console.error("Fidelity check failed", error);
+      setFailedFidelity(prev => prev.includes(key) ? prev : [...prev, key]);
+    } finally {
+      setCheckingFidelity(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  // --- Safeguarding ---
+
+  const appendIncidentEntry = (draft: IncidentDraft): Promise<void> => {
+    const append = incidentQueueRef.current.then(async () => {
+      const entry = await createIncidentEntry(incidentLogRef.current, draft);
+      incidentLogRef.current = [...incidentLogRef.current, entry];
+      setAppData(prev => ({ ...prev, incidentLog: [...prev.incidentLog, entry] }));
+    });
+    // A failed append must not block the ones after it
+    incidentQueueRef.current = append.catch(() => {});
+    return append;
+  };
+
+  const handleRecordSafeguardingAction = async (incidentId: string, action: string, note: string) => {
+    const disclosure = getIncidentEntries(appData.incidentLog, incidentId)[0];
+    if (!disclosure) return;
+    await appendIncidentEntry({
+      incidentId,
+      type: 'action',
+      timestamp: Date.now(),
+      studentId: disclosure.studentId,
+      studentName: disclosure.studentName,
+      teacherName: getTeacherNameFor(appData, disclosure.studentId),
+      action,
+      ...(note && { note })
+    });
+  };
+
+  // Recorded on the message, so the acknowledgement is part of the audit trail
+  const handleAcknowledgeHighStakes = (studentId: string, messageId: string) => {
+    setAppData(prev => ({
+      ...prev,
+      chats: {
+        ...prev.chats,
+        [studentId]: (prev.chats[studentId] || []).map(m =>
+          m.id === messageId && m.highStakes ? { ...m, highStakes: { ...m.highStakes, acknowledgedAt: Date.now() } } : m)
+      }
+    }));
+  };
+
+  const handleRetryMessage = async (studentId: string, messageId: string) => {
+    const student = appData.students.find(s => s.id === studentId);
+    const message = appData.chats[studentId]?.find(m => m.id === messageId);
+    if (!student || !message) return;
+
+    const { status, errorKind, ...pending } = message;
+    const retried: ChatMessage = { ...pending, translatedText: 'Adapting...' };
+    setAppData(prev => ({
+      ...prev,
+      chats: {
+        ...prev.chats,
+        [studentId]: prev.chats[studentId].map(m => m.id === messageId ? retried : m)
+      }
+    }));
+    await runTranslation(retried, student);
+  };
+
+  const handleDiscardMessage = (studentId: string, messageId: string) => {
+    setAppData(prev => ({
+      ...prev,
+      chats: {
+        ...prev.chats,
+        [studentId]: (prev.chats[studentId] || []).filter(msg => msg.id !== messageId)
+      },
+      outbox: prev.outbox.filter(entry => !(entry.studentId === studentId && entry.messageId === messageId))
+    }));
+  };
+
+  // --- Offline Outbox ---
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Translates queued messages one at a time, oldest first, so conversations stay in order
+  const drainOutbox = async () => {
+    if (isDrainingOutboxRef.current) return;
+    isDrainingOutboxRef.current = true;
+    try {
+      for (const entry of appData.outbox) {
+        // Stop when the connection drops again or the app is locked
+        if (!navigator.onLine || !persistedDataRef.current) break;
+
+        const student = appData.students.find(s => s.id === entry.studentId);
+        // Messages queued in an earlier session are only in the stored history
+        const loaded = student ? await loadChatHistories([student.id]) : {};
+        const chat = mergeChats(appData.chats[entry.studentId] || [], loaded[entry.studentId] || []);
+
+        const message = chat.find(m => m.id === entry.messageId);
+        if (!student || !message || message.status !== 'pending') {
+          // Discarded or already sent
+          setAppData(prev => ({ ...prev, outbox: prev.outbox.filter(e => e !== entry) }));
+          continue;
+        }
+
+        const { status, ...sending } = message;
+        const inFlight: ChatMessage = { ...sending, translatedText: 'Adapting...' };
+        setAppData(prev => ({
+          ...prev,
+          chats: {
+            ...prev.chats,
+            [student.id]: prev.chats[student.id].map(m => m.id === message.id ? inFlight : m)
+          }
+        }));
+        await runTranslation(inFlight, student);
+      }
+    } catch (e) {
+      console.error("Failed to send queued messages", e);
+    } finally {
+      isDrainingOutboxRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (isOnline && !isLocked && appData.outbox.length > 0) drainOutbox();
+  }, [isOnline, isLocked, appData.outbox.length]);
+
+  const handleCancelTranslation = (studentId: string, messageId: string) => {
+    translationControllersRef.current.get(streamKey(studentId, messageId))?.abort();
+  };
+
+  // --- Broadcast ---
+
+  // High-stakes broadcasts need the interpreter warning acknowledged, as single messages do
+  const handleBroadcast = async (text: string) => {
+    if (!broadcast) return;
+    const topics = detectHighStakesTopics(text);
+    if (topics.length > 0) {
+      setPendingBroadcastHighStakes({ text, topics });
+      return;
     }
+    await sendBroadcast(text);
+  };
+
+  const handleConfirmBroadcastHighStakes = () => {
+    if (!pendingBroadcastHighStakes) return;
+    const { text, topics } = pendingBroadcastHighStakes;
+    const now = Date.now();
+    setPendingBroadcastHighStakes(null);
+    sendBroadcast(text, { topics, detectedAt: now, acknowledgedAt: now });
+  };
+
+  const sendBroadcast = async (text: string, highStakes?: HighStakesFlag) => {
+    if (!broadcast) return;
+    const recipients = appData.students.filter(s => broadcast.studentIds.includes(s.id));
+
+    // Appending to a history that was never loaded would hide the stored messages
+    try {
+      await loadChatHistories(recipients.map(s => s.id));
+    } catch (e) {
+      console.error("Failed to load chat history", e);
+      alert("Could not load every student's conversation. Nothing was sent.");
+      return;
+    }
+
+    setIsLoading(true);
+    // Each student gets their own translation, adapted to their profile
+    // What the students read about a high-stakes topic is always checked
+    const messageIds = await Promise.all(recipients.map(s => processDirectTranslation(text, 'teacher', s, { checkMeaning: !!highStakes, highStakes })));
+    setBroadcast(prev => prev && {
+      ...prev,
+      text,
+      messageIds: Object.fromEntries(recipients.map((s, i) => [s.id, messageIds[i]]))
+    });
+    setIsLoading(false);
   };
 
   const handleOptionSelect = (option: CommunicationOption) => {
@@ -249,7 +768,7 @@ const App: React.FC = () => {
 
     // Add selected option to chat
     const newMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: generateId(),
       originalText: option.englishText, // Use the refined English text, not the raw intent
       translatedText: option.translatedText,
       culturalNote: `${option.strategy} approach.`,
@@ -257,7 +776,9 @@ const App: React.FC = () => {
       isLoadingAudio: false,
       sender: 'teacher',
       strategy: option.strategy,
-      reasoning: option.reasoning
+      reasoning: option.reasoning,
+      ...(pendingIntent?.checkMeaning && { checkMeaning: true }),
+      ...(pendingIntent?.highStakes && { highStakes: pendingIntent.highStakes })
     };
 
     setAppData(prev => ({
@@ -270,6 +791,7 @@ const App: React.FC = () => {
 
     setGeneratedOptions(null);
     setPendingIntent(null);
+    if (shouldCheckFidelity(newMessage, currentStudent, appData.checkFidelity)) runFidelityCheck(newMessage, currentStudent);
   };
 
   const handleOptionCancel = () => {
@@ -278,8 +800,10 @@ const App: React.FC = () => {
   };
 
 
-  const handlePlayAudio = async (msg: ChatMessage) => {
-    if (playingId || !currentStudent) return;
+  // Plays a message from the current chat, or from another student's chat when `student` is given
+  const handlePlayAudio = async (msg: ChatMessage, student: StudentProfile | undefined = currentStudent) => {
+    // Flagged messages reach the student only once the interpreter warning was acknowledged
+    if (playingId || !student || needsAcknowledgement(msg)) return;
 
     setPlayingId(msg.id);
     const updateMessageLoading = (isLoadingAudio: boolean) => {
@@ -287,7 +811,7 @@ const App: React.FC = () => {
         ...prev,
         chats: {
           ...prev.chats,
-          [currentStudent.id]: prev.chats[currentStudent.id].map(m => m.id === msg.id ? { ...m, isLoadingAudio } : m)
+          [student.id]: prev.chats[student.id].map(m => m.id === msg.id ? { ...m, isLoadingAudio } : m)
         }
       }));
     };
@@ -295,22 +819,20 @@ const App: React.FC = () => {
     try {
       if (msg.sender === 'teacher') {
         // Teacher spoke -> Translate to Student's Language
-        // If student language is English (Neurodivergent mode), play English
-        const isEnglishTarget = currentStudent.language.toLowerCase().includes('english');
-        
-        if (appData.preferredVoice === VoiceType.AI && !isEnglishTarget) {
-          updateMessageLoading(true);
-          const audioBase64 = await generateSpeech(msg.translatedText);
+        // Adapted English (neurodivergent mode only) is played with the local voice
+        if (appData.preferredVoice === VoiceType.AI && needsTranslation(student)) {
+          // Replays come from the cache, which also works offline
+          const audioBase64 = await getMessageSpeech(msg, student, () => updateMessageLoading(true));
           updateMessageLoading(false);
           
           if (audioBase64) {
-            await playGeminiAudio(audioBase64);
+            await playGeminiAudio(audioBase64, student.voice?.volume);
           } else {
-             await playLocalAudio(msg.translatedText, currentStudent.language);
+             await playLocalAudio(msg.translatedText, student.language, student.voice);
           }
         } else {
           // Use Local TTS for English target or if preferred
-          await playLocalAudio(msg.translatedText, currentStudent.language);
+          await playLocalAudio(msg.translatedText, student.language, student.voice);
         }
       } else {
         // Student spoke -> Translate to English for Teacher (Use Local English TTS)
@@ -327,33 +849,55 @@ const App: React.FC = () => {
 
   // --- Import / Export / Demo ---
 
-  const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(appData, null, 2));
+  // Histories that were never opened this session only exist in the database, and a chat in
+  // memory may hold only the messages added since
+  const loadFullAppData = async (): Promise<AppData> => {
+    const storedChats = await loadAllChats();
+    const studentIds = new Set([...Object.keys(storedChats), ...Object.keys(appData.chats)]);
+    return {
+      ...appData,
+      chats: Object.fromEntries([...studentIds].map(id => [id, mergeChats(appData.chats[id] || [], storedChats[id] || [])]))
+    };
+  };
+
+  // With a password the backup is sealed in an encrypted container instead of plain JSON.
+  // With a class id only that class, its students and their chats are included.
+  const handleExport = async (password?: string, classId?: string) => {
+    const fullData = await loadFullAppData();
+    const scopedData = classId ? scopeToClass(fullData, classId) : fullData;
+    const contents = password ? await createEncryptedBackup(scopedData, password) : scopedData;
+    const classSuffix = classId ? `_${(scopedData.classes[0]?.name || 'class').replace(/[^\p{L}\p{N}_-]+/gu, '_')}` : '';
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(contents, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `teacher_aid_backup_${new Date().toISOString().slice(0,10)}.json`);
+    downloadAnchorNode.setAttribute("download", `teacher_aid_backup${classSuffix}_${new Date().toISOString().slice(0,10)}${password ? '.encrypted' : ''}.json`);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
   };
 
-  const handleImport = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const importedData = JSON.parse(text);
-        if (importedData.students && importedData.chats) {
-          setAppData(importedData);
-          alert("Backup restored successfully!");
-        } else {
-          alert("Invalid backup file format.");
-        }
-      } catch (err) {
-        alert("Failed to parse backup file.");
+  // Receives parsed backup contents; encrypted backups are already decrypted by the Data tab
+  const handleImport = async (raw: unknown) => {
+    try {
+      // Older backups are upgraded to the current schema; malformed ones are rejected with a reason
+      const importedData = upgradeAppData(raw);
+      // The wizard compares the backup against everything on this device
+      setPendingImport({ current: await loadFullAppData(), incoming: importedData });
+    } catch (err) {
+      if (err instanceof SchemaError) {
+        alert(`This backup cannot be restored.\n\n${describeSchemaError(err)}`);
+      } else {
+        console.error("Import failed", err);
+        alert("Failed to read backup file.");
       }
-    };
-    reader.readAsText(file);
+    }
+  };
+
+  const handleApplyImport = async (mergedData: AppData) => {
+    // Replace the database wholesale rather than diffing against a partially loaded state
+    persistedDataRef.current = mergedData;
+    setAppData(mergedData);
+    await replaceAllData(mergedData);
   };
 
   const handleLoadDemo = (type: 'esl' | 'neurodivergent') => {
@@ -369,7 +913,13 @@ const App: React.FC = () => {
         name: 'Sam',
         language: 'English',
         age: 10,
-        sensitivities: 'Autism Spectrum Disorder, Pathological Demand Avoidance (PDA). Extremely literal thinker. Overwhelmed by direct questions or authoritative tone ("demands"). Loves trains and scheduling.',
+        mode: 'adapt',
+        sensitivities: [
+          createSensitivityTag('other', 'Autism Spectrum Disorder', 'teacher'),
+          createSensitivityTag('pda', 'Overwhelmed by direct questions or authoritative tone ("demands")', 'teacher'),
+          createSensitivityTag('literal-processing', 'Extremely literal thinker', 'teacher'),
+          createSensitivityTag('interest', 'Trains and scheduling', 'teacher')
+        ],
         guideBook: `## Communication Style
 Sam processes language literally. "Hop to it" might confuse him. He resists direct demands ("Do this now") due to PDA, which triggers anxiety.
 
@@ -418,7 +968,12 @@ Sam processes language literally. "Hop to it" might confuse him. He resists dire
         name: 'Hiroto',
         language: 'Japanese',
         age: 8,
-        sensitivities: 'High anxiety about making public mistakes ("Haji"). Responds well to visual metaphors and private encouragement. Avoids eye contact when scolded.',
+        mode: 'translate',
+        sensitivities: [
+          createSensitivityTag('anxiety', 'High anxiety about making public mistakes ("Haji")', 'teacher'),
+          createSensitivityTag('preferred-support', 'Visual metaphors and private encouragement', 'teacher'),
+          createSensitivityTag('other', 'Avoids eye contact when scolded', 'teacher')
+        ],
         guideBook: `## Communication Style
 Hiroto is quiet and observant. He processes information deeply before responding. He prefers indirect communication over direct confrontation.
 
@@ -462,13 +1017,18 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
 
     setAppData(prev => ({
       ...prev,
-      students: [...prev.students, demoStudent],
+      students: [...prev.students, recordRevision(demoStudent, 'teacher')],
       chats: { ...prev.chats, [demoId]: demoChats },
       currentStudentId: demoId,
+      activeClassId: '', // Make sure the demo student is visible in the sidebar
       teacherName: 'Ms. Thompson'
     }));
   };
 
+  if (isLocked) {
+    return <LockScreen onUnlock={handleUnlock} onErase={handleErase} />;
+  }
+
   return (
     <div className="flex flex-col h-screen bg-slate-50 relative">
       
@@ -476,13 +1036,18 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
       <Sidebar 
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
-        students={appData.students}
+        students={getVisibleStudents(appData)}
+        title={activeClass?.name}
         currentStudentId={appData.currentStudentId}
         onSelectStudent={handleStudentSwitch}
         onAddStudent={() => {
           setIsSidebarOpen(false);
           setIsModalOpen(true);
         }}
+        onBroadcast={(studentIds) => {
+          setIsSidebarOpen(false);
+          setBroadcast({ studentIds });
+        }}
       />
 
       {/* Header */}
@@ -523,6 +1088,36 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
         </div>
         
         <div className="flex items-center gap-2">
+           {/* Active Class Selector */}
+           {appData.classes.length > 0 && (
+             <select
+               value={appData.activeClassId}
+               onChange={(e) => handleClassChange(e.target.value)}
+               className="max-w-[10rem] text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-indigo-500 outline-none"
+               title="Active class"
+             >
+               <option value="">All students</option>
+               {appData.classes.map(c => (
+                 <option key={c.id} value={c.id}>{c.name}</option>
+               ))}
+             </select>
+           )}
+
+           {/* Outbox Indicator */}
+           {appData.outbox.length > 0 && (
+             <div
+               className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded-full border ${
+                 isOnline ? 'text-indigo-500 bg-indigo-50 border-indigo-100 animate-pulse' : 'text-gray-600 bg-gray-100 border-gray-200'
+               }`}
+               title={isOnline ? 'Translating messages written offline' : 'Messages will be translated when the connection returns'}
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                 <path fillRule="evenodd" d="M10 18a8 8 0 1 0 0-16 8 8 0 0 0 0 16Zm.75-13a.75.75 0 0 0-1.5 0v5c0 .414.336.75.75.75h4a.75.75 0 0 0 0-1.5h-3.25V5Z" clipRule="evenodd" />
+               </svg>
+               {isOnline ? 'Sending' : 'Offline'} • {appData.outbox.length} queued
+             </div>
+           )}
+
            {/* Profile Updating Indicator */}
            {isAnalyzingProfile && (
              <div className="flex items-center gap-1 text-[10px] text-indigo-500 bg-indigo-50 px-2 py-1 rounded-full animate-pulse border border-indigo-100">
@@ -533,6 +1128,42 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
              </div>
            )}
 
+           {/* AI profile suggestions waiting for review */}
+           {!isAnalyzingProfile && pendingReviewCount > 0 && (
+             <button
+               onClick={() => setIsModalOpen(true)}
+               className="text-[10px] text-purple-700 bg-purple-50 px-2 py-1 rounded-full border border-purple-100 hover:bg-purple-100"
+               title="Review AI suggestions in Settings > Students"
+             >
+               {pendingReviewCount} {pendingReviewCount === 1 ? 'suggestion' : 'suggestions'} to review
+             </button>
+           )}
+
+           {currentStudent && (
+             <button 
+               onClick={() => setIsTranscriptOpen(true)}
+               className="p-2 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
+               title="Export transcript"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                 <path fillRule="evenodd" d="M5.625 1.5c-1.036 0-1.875.84-1.875 1.875v17.25c0 1.035.84 1.875 1.875 1.875h12.75c1.035 0 1.875-.84 1.875-1.875V12.75A3.75 3.75 0 0 0 16.5 9h-1.875a1.875 1.875 0 0 1-1.875-1.875V5.25A3.75 3.75 0 0 0 9 1.5H5.625ZM7.5 15a.75.75 0 0 1 .75-.75h7.5a.75.75 0 0 1 0 1.5h-7.5A.75.75 0 0 1 7.5 15Zm.75 2.25a.75.75 0 0 0 0 1.5H12a.75.75 0 0 0 0-1.5H8.25Z" clipRule="evenodd" />
+                 <path d="M12.971 1.816A5.23 5.23 0 0 1 14.25 5.25v1.875c0 .207.168.375.375.375H16.5a5.23 5.23 0 0 1 3.434 1.279 9.768 9.768 0 0 0-6.963-6.963Z" />
+               </svg>
+             </button>
+           )}
+
+           {encryptionSettings.enabled && (
+             <button 
+               onClick={handleLock}
+               className="p-2 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
+               title="Lock now"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                 <path fillRule="evenodd" d="M12 1.5a5.25 5.25 0 0 0-5.25 5.25v3a3 3 0 0 0-3 3v6.75a3 3 0 0 0 3 3h10.5a3 3 0 0 0 3-3v-6.75a3 3 0 0 0-3-3v-3c0-2.9-2.35-5.25-5.25-5.25Zm3.75 8.25v-3a3.75 3.75 0 1 0-7.5 0v3h7.5Z" clipRule="evenodd" />
+               </svg>
+             </button>
+           )}
+
            <button 
              onClick={() => setIsModalOpen(true)}
              className="p-2 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
@@ -560,69 +1191,165 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
              </div>
           </div>
         ) : (
-          messages.map((msg) => (
-            <div key={msg.id} className={`animate-fade-in-up flex flex-col ${msg.sender === 'teacher' ? 'items-end' : 'items-start'}`}>
-              <div className="flex flex-col gap-1 max-w-[85%]">
-                <div 
-                  className={`px-4 py-3 shadow-md ${
-                    msg.sender === 'teacher' 
-                      ? 'bg-indigo-600 text-white rounded-2xl rounded-tr-none' 
-                      : 'bg-emerald-600 text-white rounded-2xl rounded-tl-none'
-                  }`}
-                >
-                   <p className={`text-sm opacity-90 mb-1 border-b pb-1 ${msg.sender === 'teacher' ? 'border-indigo-400/30' : 'border-emerald-400/30'}`}>
-                     {msg.originalText}
-                   </p>
-                   <p className="text-lg font-medium">{msg.translatedText}</p>
-                </div>
+          messages.map((msg) => {
+            // Defined while the translation is still arriving
+            const streaming = currentStudent ? streamingText[streamKey(currentStudent.id, msg.id)] : undefined;
+            // Only the side in the student's language can be right-to-left
+            const studentDir = currentStudent ? getLanguageDirection(currentStudent.language) : 'ltr';
+            const isCheckingFidelity = !!currentStudent && checkingFidelity.includes(streamKey(currentStudent.id, msg.id));
+            const hasFidelityFailed = !!currentStudent && failedFidelity.includes(streamKey(currentStudent.id, msg.id));
+            const safeguardingActions = msg.safeguardingIncidentId
+              ? getIncidentEntries(appData.incidentLog, msg.safeguardingIncidentId).filter(entry => entry.type === 'action').length
+              : 0;
+            return (
+              <div key={msg.id} className={`animate-fade-in-up flex flex-col ${msg.sender === 'teacher' ? 'items-end' : 'items-start'}`}>
+                <div className="flex flex-col gap-1 max-w-[85%]">
+                  {msg.highStakes && currentStudent && (
+                    <HighStakesBanner flag={msg.highStakes} onAcknowledge={() => handleAcknowledgeHighStakes(currentStudent.id, msg.id)} />
+                  )}
+                  {msg.safeguardingIncidentId && (
+                    <button
+                      onClick={() => setSafeguardingIncidentId(msg.safeguardingIncidentId!)}
+                      className="rounded-xl border border-red-300 bg-red-50 px-3 py-2 text-xs text-left text-red-800 font-medium hover:bg-red-100"
+                    >
+                      Possible safeguarding disclosure • {safeguardingActions === 0 ? 'no action recorded yet' : `${safeguardingActions} ${safeguardingActions === 1 ? 'action' : 'actions'} recorded`} • View steps
+                    </button>
+                  )}
+                  <div 
+                    className={`px-4 py-3 shadow-md ${
+                      msg.sender === 'teacher' 
+                        ? 'bg-indigo-600 text-white rounded-2xl rounded-tr-none' 
+                        : 'bg-emerald-600 text-white rounded-2xl rounded-tl-none'
+                    } ${msg.status === 'pending' ? 'opacity-50 grayscale' : ''} ${msg.fidelity && isDivergent(msg.fidelity) ? 'ring-2 ring-red-400 ring-offset-2' : ''}`}
+                  >
+                     <p
+                       dir={msg.sender === 'student' ? studentDir : 'ltr'}
+                       className={`text-sm opacity-90 mb-1 border-b pb-1 ${msg.sender === 'teacher' ? 'border-indigo-400/30' : 'border-emerald-400/30'}`}
+                     >
+                       {msg.originalText}
+                     </p>
+                     {msg.status === 'pending' ? (
+                       <p className="text-sm italic opacity-80">Waiting for connection...</p>
+                     ) : msg.status === 'failed' ? (
+                       <p className="text-sm font-medium bg-white/15 rounded-lg px-2 py-1">
+                         Translation failed. {describeAIErrorKind(msg.errorKind || 'unknown')}
+                       </p>
+                     ) : (
+                       <p dir={msg.sender === 'teacher' ? studentDir : 'ltr'} className="text-lg font-medium">
+                         {streaming === undefined ? msg.translatedText : (streaming || msg.translatedText)}
+                         {streaming !== undefined && <span className="inline-block w-2 h-4 ml-1 align-middle bg-white/70 animate-pulse" />}
+                       </p>
+                     )}
+                  </div>
+
+                  {msg.sender === 'teacher' && <FidelityPanel fidelity={msg.fidelity} isChecking={isCheckingFidelity} hasFailed={hasFidelityFailed} />}
                 
-                {/* Actions & Meta */}
-                <div className={`flex items-center gap-2 mt-1 ${msg.sender === 'teacher' ? 'justify-end mr-1' : 'justify-start ml-1'}`}>
-                   {/* Reasoning / Insight Button */}
-                   {msg.reasoning && (
-                      <button 
-                        onClick={() => setInspectingMessage(msg)}
-                        className="text-[10px] bg-purple-100 text-purple-800 w-5 h-5 flex items-center justify-center rounded-full border border-purple-200 shadow-sm hover:bg-purple-200 transition-colors"
-                        title="View Strategy & Reasoning"
-                      >
-                        <span className="font-serif italic font-bold">i</span>
-                      </button>
-                   )}
-
-                   {msg.culturalNote && (
-                      <span className="text-[10px] bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full border border-yellow-200 shadow-sm">
-                        Note: {msg.culturalNote}
-                      </span>
-                   )}
+                  {/* Actions & Meta */}
+                  <div className={`flex items-center gap-2 mt-1 ${msg.sender === 'teacher' ? 'justify-end mr-1' : 'justify-start ml-1'}`}>
+                     {streaming !== undefined && currentStudent && (
+                        <button
+                          onClick={() => handleCancelTranslation(currentStudent.id, msg.id)}
+                          className="text-[10px] bg-white text-gray-600 px-2 py-0.5 rounded-full border border-gray-200 shadow-sm hover:text-red-600 hover:border-red-200"
+                        >
+                          Cancel
+                        </button>
+                     )}
+
+                     {msg.status === 'pending' && currentStudent && (
+                        <button
+                          onClick={() => handleDiscardMessage(currentStudent.id, msg.id)}
+                          className="text-[10px] bg-white text-gray-600 px-2 py-0.5 rounded-full border border-gray-200 shadow-sm hover:text-red-600 hover:border-red-200"
+                        >
+                          Discard
+                        </button>
+                     )}
+
+                     {msg.status === 'failed' && currentStudent && (
+                        <>
+                          <button
+                            onClick={() => handleRetryMessage(currentStudent.id, msg.id)}
+                            className="text-[10px] bg-white text-indigo-700 px-2 py-0.5 rounded-full border border-indigo-200 shadow-sm hover:bg-indigo-50"
+                          >
+                            Retry
+                          </button>
+                          <button
+                            onClick={() => handleDiscardMessage(currentStudent.id, msg.id)}
+                            className="text-[10px] bg-white text-gray-600 px-2 py-0.5 rounded-full border border-gray-200 shadow-sm hover:text-red-600 hover:border-red-200"
+                          >
+                            Discard
+                          </button>
+                        </>
+                     )}
+
+                     {currentStudent && !msg.fidelity && !isCheckingFidelity && canCheckFidelity(msg, currentStudent) && (
+                        <button
+                          onClick={() => runFidelityCheck(msg, currentStudent)}
+                          className="text-[10px] bg-white text-gray-600 px-2 py-0.5 rounded-full border border-gray-200 shadow-sm hover:text-indigo-700 hover:border-indigo-200"
+                          title="Translate the message back into English and compare the meaning"
+                        >
+                          {hasFidelityFailed ? 'Check again' : 'Check meaning'}
+                        </button>
+                     )}
+
+                     {/* Reasoning / Insight Button */}
+                     {msg.reasoning && (
+                        <button 
+                          onClick={() => setInspectingMessage(msg)}
+                          className="text-[10px] bg-purple-100 text-purple-800 w-5 h-5 flex items-center justify-center rounded-full border border-purple-200 shadow-sm hover:bg-purple-200 transition-colors"
+                          title="View Strategy & Reasoning"
+                        >
+                          <span className="font-serif italic font-bold">i</span>
+                        </button>
+                     )}
+
+                     {msg.culturalNote && (
+                        <span className="text-[10px] bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full border border-yellow-200 shadow-sm">
+                          Note: {msg.culturalNote}
+                        </span>
+                     )}
                    
-                   <button
-                     onClick={() => handlePlayAudio(msg)}
-                     disabled={playingId === msg.id || msg.isLoadingAudio}
-                     className={`flex items-center justify-center w-8 h-8 rounded-full bg-white border shadow-sm transition-all ${
-                       playingId === msg.id 
-                         ? 'text-indigo-600 border-indigo-200' 
-                         : 'text-gray-500 border-gray-100 hover:border-gray-300'
-                     }`}
-                   >
-                     {msg.isLoadingAudio ? (
-                       <svg className="animate-spin w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                     ) : playingId === msg.id ? (
-                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-                          <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 0 1 .75-.75H9a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H7.5a.75.75 0 0 1-.75-.75V5.25Zm7.5 0A.75.75 0 0 1 15 4.5h1.5a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H15a.75.75 0 0 1-.75-.75V5.25Z" clipRule="evenodd" />
-                        </svg>
-                     ) : (
-                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-                          <path fillRule="evenodd" d="M4.5 5.653c0-1.427 1.529-2.33 2.779-1.643l11.54 6.347c1.295.712 1.295 2.573 0 3.286L7.28 19.99c-1.25.687-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" />
-                        </svg>
+                     {msg.sender === 'teacher' && !msg.status && !needsAcknowledgement(msg) && (
+                        <button
+                          onClick={() => setAudioExportMessageId(msg.id)}
+                          className="flex items-center justify-center w-8 h-8 rounded-full bg-white border border-gray-100 shadow-sm text-gray-500 hover:border-gray-300 transition-all"
+                          title="Download audio"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                            <path d="M10.75 2.75a.75.75 0 0 0-1.5 0v8.614L6.295 8.235a.75.75 0 1 0-1.09 1.03l4.25 4.5a.75.75 0 0 0 1.09 0l4.25-4.5a.75.75 0 0 0-1.09-1.03l-2.955 3.129V2.75Z" />
+                            <path d="M3.5 12.75a.75.75 0 0 0-1.5 0v2.5A2.75 2.75 0 0 0 4.75 18h10.5A2.75 2.75 0 0 0 18 15.25v-2.5a.75.75 0 0 0-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5Z" />
+                          </svg>
+                        </button>
                      )}
-                   </button>
+
+                     <button
+                       onClick={() => handlePlayAudio(msg)}
+                       disabled={playingId === msg.id || msg.isLoadingAudio || !!msg.status || needsAcknowledgement(msg)}
+                       className={`flex items-center justify-center w-8 h-8 rounded-full bg-white border shadow-sm transition-all disabled:opacity-50 ${
+                         playingId === msg.id 
+                           ? 'text-indigo-600 border-indigo-200' 
+                           : 'text-gray-500 border-gray-100 hover:border-gray-300'
+                       }`}
+                     >
+                       {msg.isLoadingAudio ? (
+                         <svg className="animate-spin w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                       ) : playingId === msg.id ? (
+                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                            <path fillRule="evenodd" d="M6.75 5.25a.75.75 0 0 1 .75-.75H9a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H7.5a.75.75 0 0 1-.75-.75V5.25Zm7.5 0A.75.75 0 0 1 15 4.5h1.5a.75.75 0 0 1 .75.75v13.5a.75.75 0 0 1-.75.75H15a.75.75 0 0 1-.75-.75V5.25Z" clipRule="evenodd" />
+                          </svg>
+                       ) : (
+                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                            <path fillRule="evenodd" d="M4.5 5.653c0-1.427 1.529-2.33 2.779-1.643l11.54 6.347c1.295.712 1.295 2.573 0 3.286L7.28 19.99c-1.25.687-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" />
+                          </svg>
+                       )}
+                     </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))
+            );
+          })
         )}
         <div ref={messagesEndRef} />
       </main>
@@ -630,9 +1357,12 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
       {/* Input */}
       <InputArea 
         onSendMessage={handleSendMessage} 
+        onConversationTurn={handleConversationTurn}
         isLoading={isLoading} 
+        isPlaying={!!playingId}
         studentName={currentStudent?.name}
         studentLanguage={currentStudent?.language}
+        meaningCheck={currentStudent && needsTranslation(currentStudent) ? (appData.checkFidelity ? 'always' : 'optional') : undefined}
       />
 
       {/* Option Selector Overlay */}
@@ -644,6 +1374,34 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
         />
       )}
 
+      {/* High-Stakes Warning */}
+      {pendingHighStakes && (
+        <HighStakesWarning
+          text={pendingHighStakes.text}
+          topics={pendingHighStakes.topics}
+          onConfirm={handleConfirmHighStakes}
+          onCancel={() => setPendingHighStakes(null)}
+        />
+      )}
+      {pendingBroadcastHighStakes && (
+        <HighStakesWarning
+          text={pendingBroadcastHighStakes.text}
+          topics={pendingBroadcastHighStakes.topics}
+          onConfirm={handleConfirmBroadcastHighStakes}
+          onCancel={() => setPendingBroadcastHighStakes(null)}
+        />
+      )}
+
+      {/* Safeguarding Alert */}
+      {safeguardingIncidentId && (
+        <SafeguardingAlert
+          entries={getIncidentEntries(appData.incidentLog, safeguardingIncidentId)}
+          settings={appData.safeguarding}
+          onRecordAction={(action, note) => handleRecordSafeguardingAction(safeguardingIncidentId, action, note)}
+          onClose={() => setSafeguardingIncidentId(null)}
+        />
+      )}
+
       {/* Message Insight Modal */}
       {inspectingMessage && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => setInspectingMessage(null)}>
@@ -682,6 +1440,51 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
         </div>
       )}
 
+      {/* Import Wizard */}
+      {pendingImport && (
+        <ImportWizard
+          current={pendingImport.current}
+          incoming={pendingImport.incoming}
+          onApply={handleApplyImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Broadcast */}
+      {broadcast && (
+        <BroadcastModal
+          students={appData.students.filter(s => broadcast.studentIds.includes(s.id))}
+          chats={appData.chats}
+          sentText={broadcast.text}
+          messageIds={broadcast.messageIds}
+          isSending={isLoading}
+          playingId={playingId}
+          onSend={handleBroadcast}
+          onPlay={handlePlayAudio}
+          onAcknowledgeHighStakes={(message, student) => handleAcknowledgeHighStakes(student.id, message.id)}
+          onClose={() => setBroadcast(null)}
+        />
+      )}
+
+      {/* Transcript Export */}
+      {isTranscriptOpen && (
+        <TranscriptExportModal
+          data={appData}
+          initialStudentId={appData.currentStudentId}
+          onClose={() => setIsTranscriptOpen(false)}
+        />
+      )}
+
+      {/* Audio Export */}
+      {audioExportMessageId && currentStudent && (
+        <AudioExportModal
+          student={currentStudent}
+          messages={appData.chats[currentStudent.id] || []}
+          initialMessageId={audioExportMessageId}
+          onClose={() => setAudioExportMessageId(null)}
+        />
+      )}
+
       {/* Profile Modal */}
       <ProfileModal 
         isOpen={isModalOpen}
@@ -691,6 +1494,10 @@ In Japanese culture, group harmony ("Wa") and saving face are critical. Public p
         onImport={handleImport}
         onExport={handleExport}
         onLoadDemo={handleLoadDemo}
+        encryption={encryptionSettings}
+        onSetPassphrase={handleSetPassphrase}
+        onSetAutoLock={handleSetAutoLock}
+        onLockNow={handleLock}
       />
     </div>
   );
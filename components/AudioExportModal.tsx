@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ChatMessage, StudentProfile } from '../types';
+import { getMessageSpeech } from '../services/speech';
+import { PAUSE_OPTIONS, buildWavBlob, audioFileName } from '../services/audioExport';
+import { downloadBlob } from '../services/transcriptExport';
+import { needsAcknowledgement } from '../services/highStakes';
+
+interface AudioExportModalProps {
+  student: StudentProfile;
+  messages: ChatMessage[]; // The student's chat; only translated, acknowledged teacher messages can be exported
+  initialMessageId: string;
+  onClose: () => void;
+}
+
+const AudioExportModal: React.FC<AudioExportModalProps> = ({ student, messages, initialMessageId, onClose }) => {
+  // Flagged messages that were never acknowledged cannot be played, so they cannot be exported either
+  const exportable = messages.filter(m => m.sender === 'teacher' && !m.status && m.translatedText && !needsAcknowledgement(m));
+  const [selectedIds, setSelectedIds] = useState<string[]>([initialMessageId]);
+  const [pauseSeconds, setPauseSeconds] = useState(1);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // Clips are joined in conversation order, whatever order they were ticked in
+  const selected = exportable.filter(m => selectedIds.includes(m.id));
+
+  const handleDownload = async () => {
+    setProgress({ done: 0, total: selected.length });
+    try {
+      const clips: string[] = [];
+      for (const message of selected) {
+        const audioBase64 = await getMessageSpeech(message, student);
+        if (!audioBase64) {
+          alert("AI audio could not be generated for one of the messages. Audio export needs the Gemini provider and a connection for messages that have not been played before.");
+          return;
+        }
+        clips.push(audioBase64);
+        setProgress({ done: clips.length, total: selected.length });
+      }
+      downloadBlob(buildWavBlob(clips, pauseSeconds), audioFileName(student, clips.length));
+      onClose();
+    } catch (e) {
+      console.error("Audio export failed", e);
+      alert("Failed to export audio.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in" onClick={progress ? undefined : onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up" onClick={e => e.stopPropagation()}>
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white">Download Audio</h2>
+          <button onClick={onClose} disabled={!!progress} className="text-white/80 hover:text-white text-2xl leading-none disabled:opacity-50">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Save the spoken {student.language} version as a WAV file, e.g. to send home or replay without the app. Tick more messages to join them into one recording.
+          </p>
+
+          <div className="max-h-60 overflow-y-auto custom-scrollbar border border-gray-200 rounded-xl divide-y divide-gray-100">
+            {exportable.map(message => (
+              <label key={message.id} className="flex items-start gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(message.id)}
+                  onChange={() => toggle(message.id)}
+                  disabled={!!progress}
+                  className="mt-1 accent-indigo-600"
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm text-gray-900 truncate">{message.originalText}</span>
+                  <span className="block text-[11px] text-gray-400">
+                    {new Date(message.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <label className="text-sm font-medium text-gray-700">Pause between messages</label>
+            <select
+              value={pauseSeconds}
+              onChange={(e) => setPauseSeconds(parseFloat(e.target.value))}
+              disabled={selected.length < 2 || !!progress}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+            >
+              {PAUSE_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds} s</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={handleDownload}
+            disabled={selected.length === 0 || !!progress}
+            className="w-full bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {progress
+              ? `Preparing audio ${progress.done} of ${progress.total}...`
+              : `Download WAV (${selected.length} ${selected.length === 1 ? 'message' : 'messages'})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioExportModal;
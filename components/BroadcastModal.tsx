@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { AppData, ChatMessage, StudentProfile } from '../types';
+import { needsAcknowledgement } from '../services/highStakes';
+import HighStakesBanner from './HighStakesBanner';
+
+interface BroadcastModalProps {
+  students: StudentProfile[]; // Recipients
+  chats: AppData['chats'];
+  sentText?: string;
+  messageIds?: Record<string, string>; // Message created in each recipient's chat once sent
+  isSending: boolean;
+  playingId: string | null;
+  onSend: (text: string) => Promise<void>;
+  onPlay: (message: ChatMessage, student: StudentProfile) => Promise<void>;
+  onAcknowledgeHighStakes: (message: ChatMessage, student: StudentProfile) => void;
+  onClose: () => void;
+}
+
+const BroadcastModal: React.FC<BroadcastModalProps> = ({
+  students,
+  chats,
+  sentText,
+  messageIds,
+  isSending,
+  playingId,
+  onSend,
+  onPlay,
+  onAcknowledgeHighStakes,
+  onClose
+}) => {
+  const [text, setText] = useState('');
+  // Recipients can share a message id, so the active version is tracked by student
+  const [activeStudentId, setActiveStudentId] = useState<string | null>(null);
+  const [isPlayingAll, setIsPlayingAll] = useState(false);
+  const stopRequestedRef = useRef(false);
+
+  const messageFor = (student: StudentProfile): ChatMessage | undefined => {
+    const id = messageIds?.[student.id];
+    return id ? chats[student.id]?.find(m => m.id === id) : undefined;
+  };
+
+  const isTranslating = students.some(s => messageFor(s)?.translatedText === 'Adapting...');
+
+  const handleSend = async () => {
+    if (!text.trim() || isSending) return;
+    await onSend(text.trim());
+  };
+
+  const playOne = async (student: StudentProfile) => {
+    const message = messageFor(student);
+    // Versions the AI flagged after sending wait for the acknowledgement, as in the chat
+    if (!message || message.status || needsAcknowledgement(message)) return;
+    setActiveStudentId(student.id);
+    try {
+      await onPlay(message, student);
+    } finally {
+      setActiveStudentId(null);
+    }
+  };
+
+  // Plays each student's version in turn, in the order they are listed
+  const handlePlayAll = async () => {
+    stopRequestedRef.current = false;
+    setIsPlayingAll(true);
+    for (const student of students) {
+      if (stopRequestedRef.current) break;
+      await playOne(student);
+    }
+    setIsPlayingAll(false);
+  };
+
+  const handleClose = () => {
+    stopRequestedRef.current = true;
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] animate-fade-in-up">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-bold text-white">Broadcast to {students.length} Student{students.length === 1 ? '' : 's'}</h2>
+          <button onClick={handleClose} className="text-white/80 hover:text-white text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {!messageIds ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {students.map(s => (
+                  <span key={s.id} className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded-full border border-indigo-100">
+                    {s.name} • {s.language}
+                  </span>
+                ))}
+              </div>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={4}
+                autoFocus
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+                placeholder="e.g. Please put your books away and line up at the door."
+              />
+              <p className="text-xs text-gray-400">
+                Each student receives their own translation, adapted to their profile, in their own chat.
+              </p>
+            </>
+          ) : (
+            <>
+              <div>
+                <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">Message</span>
+                <p className="text-gray-800 bg-gray-50 p-2 rounded-lg border border-gray-100 mt-1 italic">"{sentText}"</p>
+              </div>
+
+              <ul className="space-y-2">
+                {students.map(student => {
+                  const message = messageFor(student);
+                  const isActive = activeStudentId === student.id;
+                  return (
+                    <li
+                      key={student.id}
+                      className={`p-3 rounded-xl border transition-colors ${isActive ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200'}`}
+                    >
+                      <div className="flex justify-between items-start gap-3">
+                        <div className="min-w-0">
+                          <div className="text-xs text-gray-500 font-medium">{student.name} • {student.language}</div>
+                          {message?.status === 'pending' ? (
+                            <p className="text-gray-500 text-sm italic mt-1">Queued until the connection returns.</p>
+                          ) : message?.status === 'failed' ? (
+                            <p className="text-red-600 text-sm mt-1">Translation failed. Retry it from {student.name}'s chat.</p>
+                          ) : (
+                            <p className="text-gray-900 mt-1" dir="auto">{message?.translatedText ?? 'Not sent'}</p>
+                          )}
+                          {message?.culturalNote && (
+                            <p className="text-[11px] text-yellow-800 mt-1">Note: {message.culturalNote}</p>
+                          )}
+                          {message?.highStakes && (
+                            <div className="mt-2">
+                              <HighStakesBanner flag={message.highStakes} onAcknowledge={() => onAcknowledgeHighStakes(message, student)} />
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => playOne(student)}
+                          disabled={!message || !!message.status || !!playingId || isTranslating || message.isLoadingAudio || needsAcknowledgement(message)}
+                          className={`shrink-0 flex items-center justify-center w-8 h-8 rounded-full bg-white border shadow-sm transition-all disabled:opacity-50 ${
+                            isActive ? 'text-indigo-600 border-indigo-200' : 'text-gray-500 border-gray-100 hover:border-gray-300'
+                          }`}
+                          title={message && needsAcknowledgement(message) ? 'Acknowledge the high-stakes warning first' : `Play ${student.name}'s version`}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                            <path fillRule="evenodd" d="M4.5 5.653c0-1.427 1.529-2.33 2.779-1.643l11.54 6.347c1.295.712 1.295 2.573 0 3.286L7.28 19.99c-1.25.687-2.779-.217-2.779-1.643V5.653Z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 pt-2 shrink-0 border-t border-gray-100 flex gap-3">
+          {!messageIds ? (
+            <>
+              <button onClick={handleClose} className="flex-1 bg-gray-100 text-gray-700 font-bold py-3 rounded-xl hover:bg-gray-200">Cancel</button>
+              <button
+                onClick={handleSend}
+                disabled={!text.trim() || isSending}
+                className="flex-1 bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSending ? 'Sending...' : 'Translate & Send'}
+              </button>
+            </>
+          ) : (
+            <>
+              {isPlayingAll ? (
+                <button
+                  onClick={() => { stopRequestedRef.current = true; }}
+                  className="flex-1 bg-gray-100 text-gray-700 font-bold py-3 rounded-xl hover:bg-gray-200"
+                >
+                  Stop After This One
+                </button>
+              ) : (
+                <button
+                  onClick={handlePlayAll}
+                  disabled={isTranslating || !!playingId}
+                  className="flex-1 bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {isTranslating ? 'Translating...' : 'Play All in Turn'}
+                </button>
+              )}
+              <button onClick={handleClose} className="flex-1 bg-gray-100 text-gray-700 font-bold py-3 rounded-xl hover:bg-gray-200">Done</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BroadcastModal;
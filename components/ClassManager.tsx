@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { ClassGroup, StudentProfile } from '../types';
+import { generateId } from '../services/ids';
+import ConfirmationModal from './ConfirmationModal';
+
+interface ClassManagerProps {
+  classes: ClassGroup[];
+  students: StudentProfile[];
+  teacherName: string;
+  onChange: (classes: ClassGroup[]) => void;
+}
+
+const emptyClass = (): ClassGroup => ({
+  id: generateId(),
+  name: '',
+  subject: '',
+  glossary: '',
+  teacherNameOverride: '',
+  studentIds: []
+});
+
+const ClassManager: React.FC<ClassManagerProps> = ({ classes, students, teacherName, onChange }) => {
+  const [editingClassId, setEditingClassId] = useState<string | null>(null); // 'new' while creating
+  const [tempClass, setTempClass] = useState<ClassGroup>(emptyClass);
+  const [deletingClass, setDeletingClass] = useState<ClassGroup | null>(null);
+
+  const startNewClass = () => {
+    setEditingClassId('new');
+    setTempClass(emptyClass());
+  };
+
+  const startEditClass = (classGroup: ClassGroup) => {
+    setEditingClassId(classGroup.id);
+    setTempClass({ ...classGroup });
+  };
+
+  const handleTempClassChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setTempClass(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleStudent = (studentId: string) => {
+    setTempClass(prev => ({
+      ...prev,
+      studentIds: prev.studentIds.includes(studentId)
+        ? prev.studentIds.filter(id => id !== studentId)
+        : [...prev.studentIds, studentId]
+    }));
+  };
+
+  const saveClass = () => {
+    if (!tempClass.name.trim()) return;
+    const cleaned: ClassGroup = { ...tempClass, name: tempClass.name.trim() };
+    onChange(editingClassId === 'new'
+      ? [...classes, cleaned]
+      : classes.map(c => c.id === cleaned.id ? cleaned : c));
+    setEditingClassId(null);
+  };
+
+  const handleDelete = () => {
+    if (!deletingClass) return;
+    onChange(classes.filter(c => c.id !== deletingClass.id));
+    setDeletingClass(null);
+  };
+
+  if (editingClassId) {
+    return (
+      <div className="space-y-5 animate-fade-in-up">
+        <div className="flex justify-between items-center border-b border-gray-100 pb-2">
+          <h3 className="text-gray-900 font-bold text-lg">{editingClassId === 'new' ? 'New Class' : 'Edit Class'}</h3>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              name="name"
+              value={tempClass.name}
+              onChange={handleTempClassChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              placeholder="e.g. 9B Period 3"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              type="text"
+              name="subject"
+              value={tempClass.subject || ''}
+              onChange={handleTempClassChange}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              placeholder="e.g. Biology"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Teacher Name for this Class</label>
+          <input
+            type="text"
+            name="teacherNameOverride"
+            value={tempClass.teacherNameOverride || ''}
+            onChange={handleTempClassChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder={`Leave empty to use "${teacherName}"`}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Glossary</label>
+          <textarea
+            name="glossary"
+            rows={4}
+            value={tempClass.glossary || ''}
+            onChange={handleTempClassChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none resize-none font-mono text-sm"
+            placeholder={"photosynthesis\nchlorophyll = clorofila"}
+          />
+          <p className="text-xs text-gray-400 mt-1">One subject term per line. Add "= translation" to fix how a term is translated.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Roster ({tempClass.studentIds.length})</label>
+          {students.length === 0 ? (
+            <div className="text-center py-4 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200 text-sm">
+              Add students first.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto pr-1 custom-scrollbar">
+              {students.map(student => (
+                <label key={student.id} className={`flex items-center gap-2 p-2 border rounded-lg cursor-pointer text-sm transition-all ${tempClass.studentIds.includes(student.id) ? 'border-indigo-500 bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={tempClass.studentIds.includes(student.id)}
+                    onChange={() => toggleStudent(student.id)}
+                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="font-medium text-gray-900">{student.name}</span>
+                  <span className="text-xs text-gray-500 truncate">{student.language}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <button onClick={saveClass} disabled={!tempClass.name.trim()} className="flex-1 bg-indigo-600 text-white font-bold py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">Save Class</button>
+          <button onClick={() => setEditingClassId(null)} className="flex-1 bg-gray-100 text-gray-700 font-bold py-2 rounded-lg hover:bg-gray-200">Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ConfirmationModal
+        isOpen={!!deletingClass}
+        title="Delete Class?"
+        message={`"${deletingClass?.name}" will be removed. Its students and their chats are kept.`}
+        confirmLabel="Delete Class"
+        isDestructive
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingClass(null)}
+      />
+
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-gray-900 font-semibold">Classes & Periods</h3>
+        <button
+          onClick={startNewClass}
+          className="text-sm bg-indigo-100 text-indigo-700 px-3 py-1.5 rounded-lg font-medium hover:bg-indigo-200"
+        >
+          + Add Class
+        </button>
+      </div>
+
+      {classes.length === 0 ? (
+        <div className="text-center py-8 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+          No classes yet. Group students by class or period to switch between them during the day.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {classes.map(classGroup => (
+            <div key={classGroup.id} className="flex items-center justify-between p-3 rounded-xl border border-gray-200 hover:border-indigo-300">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-gray-900">{classGroup.name}</span>
+                  {classGroup.subject && (
+                    <span className="text-[10px] bg-indigo-100 text-indigo-700 px-1.5 py-0.5 rounded-full">{classGroup.subject}</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {classGroup.studentIds.length} student{classGroup.studentIds.length === 1 ? '' : 's'}
+                  {classGroup.teacherNameOverride && ` • as ${classGroup.teacherNameOverride}`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => startEditClass(classGroup)} className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path d="M2.695 14.763l-1.262 3.154a.5.5 0 00.65.65l3.155-1.262a4 4 0 001.343-.885L17.5 5.5a2.121 2.121 0 00-3-3L3.58 13.42a4 4 0 00-.885 1.343z" /></svg>
+                </button>
+                <button onClick={() => setDeletingClass(classGroup)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path fillRule="evenodd" d="M8.75 1A2.75 2.75 0 006 3.75v.443c-.795.077-1.584.176-2.365.298a.75.75 0 10.23 1.482l.149-.022.841 10.518A2.75 2.75 0 007.596 19h4.807a2.75 2.75 0 002.742-2.53l.841-10.52.149.023a.75.75 0 00.23-1.482A41.03 41.03 0 0014 4.193V3.75A2.75 2.75 0 0011.25 1h-2.5zM10 4c.84 0 1.673.025 2.5.075V3.75c0-.69-.56-1.25-1.25-1.25h-2.5c-.69 0-1.25.56-1.25 1.25v.325C8.327 4.025 9.16 4 10 4zM8.58 7.72a.75.75 0 00-1.5.06l.3 7.5a.75.75 0 101.5-.06l-.3-7.5zm4.34.06a.75.75 0 10-1.5-.06l-.3 7.5a.75.75 0 101.5.06l.3-7.5z" clipRule="evenodd" /></svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClassManager;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { FidelityCheck } from '../types';
+import { describeDrift, isDivergent } from '../services/fidelity';
+
+interface FidelityPanelProps {
+  fidelity?: FidelityCheck;
+  isChecking: boolean;
+  hasFailed: boolean; // The last check could not be completed
+}
+
+// Shown under a teacher message: what the student will actually read, back in English
+const FidelityPanel: React.FC<FidelityPanelProps> = ({ fidelity, isChecking, hasFailed }) => {
+  if (isChecking && !fidelity) {
+    return (
+      <div className="self-end text-[11px] text-gray-500 flex items-center gap-1.5 mr-1">
+        <svg className="animate-spin w-3 h-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+        </svg>
+        Checking meaning...
+      </div>
+    );
+  }
+  if (hasFailed && !fidelity) {
+    return (
+      <div className="rounded-xl border bg-red-50 border-red-200 px-3 py-2 text-xs font-medium text-red-700">
+        The meaning check failed, so it is not known whether the student reads what you meant. Check again before relying on this message.
+      </div>
+    );
+  }
+  if (!fidelity) return null;
+
+  const drift = describeDrift(fidelity.driftScore);
+  const divergent = isDivergent(fidelity);
+
+  return (
+    <div className={`rounded-xl border px-3 py-2 text-sm ${divergent ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Back-translation</span>
+        <span
+          className={`text-[10px] font-medium px-2 py-0.5 rounded-full border ${drift.className}`}
+          title="Semantic drift: 0 means the same meaning, 100 means unrelated"
+        >
+          {drift.label} • {fidelity.driftScore}
+        </span>
+      </div>
+      <p className="text-gray-700 italic">"{fidelity.backTranslation}"</p>
+      {fidelity.divergences.length > 0 && (
+        <ul className={`mt-2 space-y-0.5 text-xs ${divergent ? 'text-red-800' : 'text-gray-600'}`}>
+          {fidelity.divergences.map((divergence, index) => (
+            <li key={index} className="flex gap-1.5">
+              <span aria-hidden="true">•</span>
+              <span>{divergence}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {divergent && (
+        <p className="mt-2 text-xs font-medium text-red-700">
+          The student may not read what you meant. Consider rephrasing and sending it again.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FidelityPanel;
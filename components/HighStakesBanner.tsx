@@ -0,0 +1,36 @@
+import React from 'react';
+import { HighStakesFlag } from '../types';
+import { describeHighStakesTopics } from '../services/highStakes';
+
+interface HighStakesBannerProps {
+  flag: HighStakesFlag;
+  onAcknowledge: () => void;
+}
+
+const HighStakesBanner: React.FC<HighStakesBannerProps> = ({ flag, onAcknowledge }) => {
+  const acknowledged = !!flag.acknowledgedAt;
+
+  return (
+    <div className={`rounded-xl border px-3 py-2 text-xs flex items-center gap-3 ${acknowledged ? 'bg-red-50/60 border-red-100 text-red-700' : 'bg-red-50 border-red-300 text-red-800'}`}>
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 shrink-0">
+        <path fillRule="evenodd" d="M8.485 2.495c.673-1.167 2.357-1.167 3.03 0l6.28 10.875c.673 1.167-.17 2.625-1.516 2.625H3.72c-1.347 0-2.189-1.458-1.515-2.625L8.485 2.495ZM10 5a.75.75 0 0 1 .75.75v3.5a.75.75 0 0 1-1.5 0v-3.5A.75.75 0 0 1 10 5Zm0 9a1 1 0 1 0 0-2 1 1 0 0 0 0 2Z" clipRule="evenodd" />
+      </svg>
+      <span className="flex-1">
+        <strong>High-stakes: {describeHighStakesTopics(flag.topics)}.</strong>{' '}
+        {acknowledged
+          ? `Acknowledged ${new Date(flag.acknowledgedAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. Consider a certified interpreter.`
+          : 'Not a certified interpretation. Acknowledge before relying on it or playing it to the student.'}
+      </span>
+      {!acknowledged && (
+        <button
+          onClick={onAcknowledge}
+          className="shrink-0 bg-red-600 text-white px-2 py-1 rounded-full font-medium hover:bg-red-700"
+        >
+          I understand
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HighStakesBanner;
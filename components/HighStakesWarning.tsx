@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { HighStakesTopic } from '../types';
+import { describeHighStakesTopics } from '../services/highStakes';
+
+interface HighStakesWarningProps {
+  text: string;
+  topics: HighStakesTopic[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Shown before a high-stakes message is sent; sending needs an explicit acknowledgement
+const HighStakesWarning: React.FC<HighStakesWarningProps> = ({ text, topics, onConfirm, onCancel }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden animate-fade-in-up">
+        <div className="bg-red-600 px-6 py-4 text-white">
+          <h3 className="text-lg font-bold">High-Stakes Conversation</h3>
+          <p className="text-sm text-white/90">{describeHighStakesTopics(topics)}</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 italic">"{text}"</p>
+          <p className="text-sm text-gray-600 leading-relaxed">
+            This message seems to be about a topic where a mistranslation could cause real harm. Teacher's Aid is not a substitute for a certified interpreter: for medical, legal, safeguarding or exclusion conversations, or after an injury, please arrange a qualified interpreter and follow your school's procedures.
+          </p>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="mt-1 accent-red-600"
+            />
+            <span className="text-sm font-medium text-gray-900">
+              I understand that this translation may be inaccurate and is not a certified interpretation.
+            </span>
+          </label>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200 transition-colors"
+            >
+              Don't Send
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={!acknowledged}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-xl font-semibold shadow-md shadow-red-200 hover:bg-red-700 disabled:opacity-50"
+            >
+              Send Anyway
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HighStakesWarning;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { AppData } from '../types';
+import { diffBackup, defaultDecision, applyImport, ImportDecision, ImportSummary, StudentImportDiff } from '../services/backupMerge';
+
+interface ImportWizardProps {
+  current: AppData; // Must include every student's full chat history
+  incoming: AppData;
+  onApply: (data: AppData) => Promise<void>;
+  onClose: () => void;
+}
+
+const DECISION_LABELS: Record<ImportDecision, string> = {
+  keep: 'Keep mine',
+  replace: 'Replace with backup',
+  merge: 'Merge chats',
+  add: 'Add student',
+  skip: 'Skip'
+};
+
+const decisionsFor = (diff: StudentImportDiff): ImportDecision[] => {
+  if (diff.status === 'new') return ['add', 'skip'];
+  if (diff.status === 'identical') return ['keep'];
+  return ['merge', 'keep', 'replace'];
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ current, incoming, onApply, onClose }) => {
+  const diffs = useMemo(() => diffBackup(current, incoming), [current, incoming]);
+  const [decisions, setDecisions] = useState<Record<string, ImportDecision>>(() =>
+    Object.fromEntries(diffs.map(diff => [diff.studentId, defaultDecision(diff)]))
+  );
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const result = applyImport(current, incoming, decisions);
+      await onApply(result.data);
+      setSummary(result.summary);
+    } catch (e) {
+      console.error("Import failed", e);
+      alert("The backup could not be imported.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-yellow-600 px-6 py-4 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-bold text-white">{summary ? 'Import Complete' : 'Restore Backup'}</h2>
+          <button onClick={onClose} className="text-white/80 hover:text-white text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {!summary ? (
+            <>
+              <p className="text-sm text-gray-600">
+                The backup contains {incoming.students.length} student{incoming.students.length === 1 ? '' : 's'}.
+                Choose what to do with each one. Students that are only on this device are always kept.
+              </p>
+
+              {diffs.length === 0 && (
+                <div className="text-center py-8 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200">
+                  This backup has no students.
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {diffs.map(diff => (
+                  <div key={diff.studentId} className="p-3 rounded-xl border border-gray-200">
+                    <div className="flex justify-between items-start gap-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-bold text-gray-900">{diff.name}</span>
+                          {diff.status === 'new' && (
+                            <span className="text-[10px] bg-emerald-100 text-emerald-800 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-emerald-200">New</span>
+                          )}
+                          {diff.status === 'conflict' && (
+                            <span className="text-[10px] bg-orange-100 text-orange-800 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-orange-200">Already here</span>
+                          )}
+                          {diff.status === 'identical' && (
+                            <span className="text-[10px] bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-gray-200">No changes</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {diff.status === 'new'
+                            ? `${diff.incomingMessageCount} messages in backup`
+                            : `${diff.currentMessageCount} messages here • ${diff.newMessageCount} new in backup${diff.profileChanged ? ' • profile differs' : ''}`}
+                        </div>
+                      </div>
+                      <select
+                        value={decisions[diff.studentId]}
+                        onChange={(e) => setDecisions(prev => ({ ...prev, [diff.studentId]: e.target.value as ImportDecision }))}
+                        disabled={diff.status === 'identical'}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-yellow-500 outline-none disabled:opacity-50"
+                      >
+                        {decisionsFor(diff).map(decision => (
+                          <option key={decision} value={decision}>{DECISION_LABELS[decision]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {decisions[diff.studentId] === 'replace' && (
+                      <p className="text-xs text-red-600 mt-2">
+                        Your current profile and all {diff.currentMessageCount} messages for {diff.name} will be replaced.
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                <div className="bg-emerald-50 rounded-xl p-3 border border-emerald-100">
+                  <div className="text-2xl font-bold text-emerald-700">{summary.studentsAdded}</div>
+                  <div className="text-xs text-emerald-800">Added</div>
+                </div>
+                <div className="bg-indigo-50 rounded-xl p-3 border border-indigo-100">
+                  <div className="text-2xl font-bold text-indigo-700">{summary.studentsMerged}</div>
+                  <div className="text-xs text-indigo-800">Merged</div>
+                </div>
+                <div className="bg-orange-50 rounded-xl p-3 border border-orange-100">
+                  <div className="text-2xl font-bold text-orange-700">{summary.studentsReplaced}</div>
+                  <div className="text-xs text-orange-800">Replaced</div>
+                </div>
+                <div className="bg-gray-50 rounded-xl p-3 border border-gray-200">
+                  <div className="text-2xl font-bold text-gray-700">{summary.studentsUnchanged}</div>
+                  <div className="text-xs text-gray-600">Unchanged</div>
+                </div>
+              </div>
+
+              {summary.classesAdded > 0 && (
+                <p className="text-sm text-gray-600">
+                  {summary.classesAdded} class{summary.classesAdded === 1 ? '' : 'es'} added from the backup.
+                </p>
+              )}
+
+              <ul className="divide-y divide-gray-100 text-sm">
+                {summary.results.map(result => (
+                  <li key={result.studentId} className="py-2 flex justify-between">
+                    <span className="font-medium text-gray-800">{result.name}</span>
+                    <span className="text-gray-500">
+                      {DECISION_LABELS[result.decision]}
+                      {result.messagesAdded > 0 && ` • +${result.messagesAdded} messages`}
+                      {result.messagesRemoved > 0 && ` • -${result.messagesRemoved} messages`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 pt-2 shrink-0 border-t border-gray-100 flex gap-3">
+          {!summary ? (
+            <>
+              <button onClick={onClose} className="flex-1 bg-gray-100 text-gray-700 font-bold py-3 rounded-xl hover:bg-gray-200">Cancel</button>
+              <button
+                onClick={handleApply}
+                disabled={isApplying || diffs.length === 0}
+                className="flex-1 bg-yellow-600 text-white font-bold py-3 rounded-xl hover:bg-yellow-700 disabled:opacity-50"
+              >
+                {isApplying ? 'Importing...' : 'Import'}
+              </button>
+            </>
+          ) : (
+            <button onClick={onClose} className="flex-1 bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700">Done</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
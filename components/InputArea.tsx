@@ -1,15 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { SenderType } from '../types';
+import { findLanguage } from '../services/languages';
+import { canTellSpeakersByScript, identifySpeaker, otherSpeaker, speakerForLanguage, speakerLanguage } from '../services/conversation';
+import { identifyLanguage } from '../services/geminiService';
 
 interface InputAreaProps {
-  onSendMessage: (text: string, sender: SenderType, useAiAssist: boolean) => void;
+  onSendMessage: (text: string, sender: SenderType, useAiAssist: boolean, checkMeaning: boolean) => void;
+  onConversationTurn: (text: string, sender: SenderType, autoPlay: boolean) => void;
   isLoading: boolean;
+  isPlaying: boolean; // Conversation mode stops listening while a translation is read out
   studentName?: string;
   studentLanguage?: string;
+  meaningCheck?: 'optional' | 'always'; // Back-translation check; absent when the student reads English
 }
 
 // Speech Recognition Types
 interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
   results: SpeechRecognitionResultList;
 }
 interface SpeechRecognitionResultList {
@@ -43,37 +50,42 @@ declare global {
   }
 }
 
-// Simple language mapper
-const getLangCode = (langName: string) => {
-  const map: Record<string, string> = {
-    'spanish': 'es-ES',
-    'french': 'fr-FR',
-    'german': 'de-DE',
-    'italian': 'it-IT',
-    'japanese': 'ja-JP',
-    'chinese': 'zh-CN',
-    'mandarin': 'zh-CN',
-    'korean': 'ko-KR',
-    'portuguese': 'pt-BR',
-    'russian': 'ru-RU',
-    'arabic': 'ar-SA',
-    'hindi': 'hi-IN'
-  };
-  return map[langName.toLowerCase().trim()] || 'en-US';
-};
-
 const InputArea: React.FC<InputAreaProps> = ({ 
   onSendMessage, 
+  onConversationTurn,
   isLoading, 
+  isPlaying,
   studentName = 'Student',
-  studentLanguage = 'English' 
+  studentLanguage = 'English',
+  meaningCheck
 }) => {
   const [inputText, setInputText] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [sender, setSender] = useState<SenderType>('teacher');
   const [useAiAssist, setUseAiAssist] = useState(true); // Default to AI assist for teacher
+  const [checkMeaning, setCheckMeaning] = useState(false); // For one high-stakes message at a time
   const recognitionRef = useRef<SpeechRecognition | null>(null);
 
+  // Conversation mode: `sender` is whoever is expected to speak next
+  const [isConversationMode, setIsConversationMode] = useState(false);
+  const [autoPlay, setAutoPlay] = useState(true);
+  const [interimText, setInterimText] = useState('');
+  const [conversationHint, setConversationHint] = useState('');
+  const [isIdentifying, setIsIdentifying] = useState(false); // Asking the AI service who spoke
+  // Recognition callbacks outlive renders, so they read the current values from refs
+  const conversationActiveRef = useRef(false);
+  const isRecognitionRunningRef = useRef(false);
+  const isBusyRef = useRef(false);
+  const isIdentifyingRef = useRef(false);
+  const senderRef = useRef<SenderType>('teacher');
+  const autoPlayRef = useRef(autoPlay);
+  const onConversationTurnRef = useRef(onConversationTurn);
+  senderRef.current = sender;
+  autoPlayRef.current = autoPlay;
+  onConversationTurnRef.current = onConversationTurn;
+
+  const isBusy = isLoading || isPlaying;
+
   useEffect(() => {
     // Initialize Speech Recognition
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -82,12 +94,189 @@ const InputArea: React.FC<InputAreaProps> = ({
       recognitionRef.current.continuous = false;
       recognitionRef.current.interimResults = false;
     }
+    return () => {
+      conversationActiveRef.current = false;
+      recognitionRef.current?.abort();
+    };
   }, []);
 
+  // --- Conversation mode ---
+
+  const startConversationListening = () => {
+    const recognition = recognitionRef.current;
+    const language = findLanguage(speakerLanguage(senderRef.current, studentLanguage));
+    if (!recognition || !language || isRecognitionRunningRef.current) return;
+
+    recognition.lang = language.code;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event: SpeechRecognitionEvent) => {
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          handleUtterance(result[0].transcript, result[0].confidence);
+        } else {
+          interim += result[0].transcript;
+        }
+      }
+      setInterimText(interim);
+    };
+    recognition.onerror = (e: any) => {
+      // 'no-speech' and 'aborted' are part of normal listening
+      if (e.error === 'not-allowed' || e.error === 'service-not-allowed') {
+        stopConversation();
+        alert("Microphone access was denied, so conversation mode cannot listen.");
+      } else if (e.error !== 'no-speech' && e.error !== 'aborted') {
+        console.error("Speech error", e);
+      }
+    };
+    // Browsers end continuous recognition after a while; keep listening until the mode is off
+    recognition.onend = () => {
+      isRecognitionRunningRef.current = false;
+      setIsListening(false);
+      setInterimText('');
+      if (conversationActiveRef.current && !isBusyRef.current && !isIdentifyingRef.current) startConversationListening();
+    };
+
+    try {
+      recognition.start();
+      isRecognitionRunningRef.current = true;
+      setIsListening(true);
+    } catch (e) {
+      console.error("Failed to start listening", e);
+    }
+  };
+
+  // Takes effect when the current recognition session ends, which stop() triggers
+  const listenFor = (speaker: SenderType) => {
+    senderRef.current = speaker;
+    setSender(speaker);
+    recognitionRef.current?.stop();
+  };
+
+  const nameOf = (speaker: SenderType) => speaker === 'teacher' ? 'the teacher' : studentName;
+
+  const handleUtterance = (text: string, confidence: number) => {
+    const transcript = text.trim();
+    // Whatever arrives while the previous utterance is being identified is dropped
+    if (!transcript || isIdentifyingRef.current) return;
+
+    if (!canTellSpeakersByScript(studentLanguage)) {
+      identifyByLanguage(transcript, confidence);
+      return;
+    }
+
+    const speaker = identifySpeaker(transcript, confidence, senderRef.current, studentLanguage);
+    if (!speaker) {
+      const next = otherSpeaker(senderRef.current);
+      setConversationHint(`That did not sound like ${speakerLanguage(senderRef.current, studentLanguage)}. Now listening for ${nameOf(next)}, please say it again.`);
+      listenFor(next);
+      return;
+    }
+
+    setConversationHint('');
+    onConversationTurnRef.current(transcript, speaker, autoPlayRef.current);
+    listenFor(otherSpeaker(speaker));
+  };
+
+  // Same-script languages: the AI service tells from the wording whether the transcript is in the
+  // language listened for. Listening pauses meanwhile, so the answer can still change who is
+  // listened for next.
+  const identifyByLanguage = async (transcript: string, confidence: number) => {
+    const listeningFor = senderRef.current;
+    const other = otherSpeaker(listeningFor);
+    isIdentifyingRef.current = true;
+    setIsIdentifying(true);
+    recognitionRef.current?.stop();
+
+    let language: string | null = null;
+    try {
+      language = await identifyLanguage(transcript, speakerLanguage(listeningFor, studentLanguage), speakerLanguage(other, studentLanguage));
+    } catch (e) {
+      console.error("Failed to identify the language", e);
+    }
+    isIdentifyingRef.current = false;
+    setIsIdentifying(false);
+    if (!conversationActiveRef.current) return;
+
+    const speaker = speakerForLanguage(language, studentLanguage);
+    if (speaker === listeningFor) {
+      setConversationHint('');
+      onConversationTurnRef.current(transcript, speaker, autoPlayRef.current);
+      senderRef.current = other;
+      setSender(other);
+    } else if (speaker === other) {
+      // The transcript is the other person's words forced into the wrong language
+      setConversationHint(`That sounded like ${speakerLanguage(other, studentLanguage)}. Now listening for ${nameOf(other)}, please say it again.`);
+      senderRef.current = other;
+      setSender(other);
+    } else if (identifySpeaker(transcript, confidence, listeningFor, studentLanguage)) {
+      // Unclear: the teacher's choice of speaker stands until they tap the other one
+      setConversationHint(`Could not tell who was speaking, so this was sent as ${nameOf(listeningFor)}. If the turn has changed, tap ${nameOf(other)} above.`);
+      onConversationTurnRef.current(transcript, listeningFor, autoPlayRef.current);
+    } else {
+      setConversationHint(`Could not tell who was speaking. Tap the speaker's name above and say it again.`);
+    }
+    if (!isBusyRef.current) startConversationListening();
+  };
+
+  const stopConversation = () => {
+    conversationActiveRef.current = false;
+    setIsConversationMode(false);
+    setInterimText('');
+    setConversationHint('');
+    recognitionRef.current?.abort();
+  };
+
+  const toggleConversationMode = () => {
+    if (isConversationMode) {
+      stopConversation();
+      return;
+    }
+    if (!recognitionRef.current) {
+      alert("Speech recognition is not supported in this browser.");
+      return;
+    }
+    if (!findLanguage(studentLanguage)?.stt) {
+      alert(`Speech recognition is not available for ${studentLanguage}, so conversation mode cannot listen for ${studentName}.`);
+      return;
+    }
+    conversationActiveRef.current = true;
+    setIsConversationMode(true);
+  };
+
+  // Listening pauses while a turn is translated or played back, so the app does not hear itself
+  useEffect(() => {
+    isBusyRef.current = isBusy;
+    if (!isConversationMode) return;
+    if (isBusy) {
+      recognitionRef.current?.stop();
+    } else {
+      startConversationListening();
+    }
+  }, [isConversationMode, isBusy]);
+
+  // A different student means a different language
+  useEffect(() => {
+    if (conversationActiveRef.current) stopConversation();
+  }, [studentName, studentLanguage]);
+
+  const handleSenderClick = (speaker: SenderType) => {
+    if (isConversationMode) {
+      setConversationHint('');
+      listenFor(speaker);
+    } else {
+      setSender(speaker);
+    }
+  };
+
   const handleSend = () => {
     if (inputText.trim() && !isLoading) {
-      onSendMessage(inputText, sender, sender === 'teacher' ? useAiAssist : false);
+      onSendMessage(inputText, sender, sender === 'teacher' && !isConversationMode ? useAiAssist : false, sender === 'teacher' && checkMeaning);
       setInputText('');
+      setCheckMeaning(false);
     }
   };
 
@@ -104,7 +293,15 @@ const InputArea: React.FC<InputAreaProps> = ({
       setIsListening(false);
     } else {
       if (recognitionRef.current) {
-        recognitionRef.current.lang = sender === 'teacher' ? 'en-US' : getLangCode(studentLanguage);
+        const language = findLanguage(sender === 'teacher' ? 'English' : studentLanguage);
+        if (!language?.stt) {
+          // Listening in the wrong language would only produce nonsense
+          alert(`Speech recognition is not available for ${studentLanguage}. Please type the message instead.`);
+          return;
+        }
+        recognitionRef.current.lang = language.code;
+        recognitionRef.current.continuous = false;
+        recognitionRef.current.interimResults = false;
         
         recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
           const transcript = event.results[0][0].transcript;
@@ -137,39 +334,103 @@ const InputArea: React.FC<InputAreaProps> = ({
                className={`absolute top-1 bottom-1 w-[calc(50%-4px)] bg-white rounded-full shadow-sm transition-all duration-300 ease-in-out ${sender === 'teacher' ? 'left-1' : 'left-[calc(50%+4px)]'}`}
              ></div>
              <button
-               onClick={() => setSender('teacher')}
+               onClick={() => handleSenderClick('teacher')}
                className={`relative z-10 px-4 py-1.5 rounded-full text-xs font-bold transition-colors flex items-center gap-2 ${sender === 'teacher' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
              >
                TEACHER
              </button>
              <button
-               onClick={() => setSender('student')}
+               onClick={() => handleSenderClick('student')}
                className={`relative z-10 px-4 py-1.5 rounded-full text-xs font-bold transition-colors flex items-center gap-2 ${sender === 'student' ? 'text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
              >
                {studentName ? studentName.toUpperCase() : 'STUDENT'}
              </button>
           </div>
 
-          {/* AI Assist Toggle (Only visible for Teacher) */}
-          {sender === 'teacher' && (
-            <label className="flex items-center gap-2 cursor-pointer group">
-              <span className={`text-xs font-medium transition-colors ${useAiAssist ? 'text-indigo-600' : 'text-gray-400'}`}>
-                AI Assist
-              </span>
-              <div className="relative inline-block w-10 h-6 align-middle select-none">
-                <input 
-                  type="checkbox" 
-                  checked={useAiAssist} 
-                  onChange={() => setUseAiAssist(!useAiAssist)} 
-                  className="hidden" 
+          <div className="flex items-center gap-4">
+            {/* Conversation Mode Toggle */}
+            <button
+              onClick={toggleConversationMode}
+              disabled={isListening && !isConversationMode}
+              className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-colors disabled:opacity-50 ${
+                isConversationMode
+                  ? 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100'
+                  : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+              }`}
+              title="Listen continuously and translate each turn as it is spoken"
+            >
+              {isConversationMode ? 'End Conversation' : 'Conversation'}
+            </button>
+  
+            {/* Auto-play replaces AI Assist in conversation mode, where turns are translated directly */}
+            {isConversationMode && (
+              <label className="flex items-center gap-2 cursor-pointer text-xs font-medium text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={autoPlay}
+                  onChange={() => setAutoPlay(!autoPlay)}
+                  className="accent-indigo-600"
+                />
+                Auto-play
+              </label>
+            )}
+  
+            {/* Fidelity Check Toggle (Only for Teacher messages that get translated) */}
+            {sender === 'teacher' && !isConversationMode && meaningCheck && (
+              <label
+                className="flex items-center gap-2 cursor-pointer text-xs font-medium text-gray-600"
+                title="Translate the message back into English and compare the meaning before you rely on it"
+              >
+                <input
+                  type="checkbox"
+                  checked={meaningCheck === 'always' || checkMeaning}
+                  disabled={meaningCheck === 'always'}
+                  onChange={() => setCheckMeaning(!checkMeaning)}
+                  className="accent-indigo-600"
                 />
-                <div className={`block w-10 h-6 rounded-full shadow-inner transition-colors duration-300 ${useAiAssist ? 'bg-indigo-600' : 'bg-gray-300'}`}></div>
-                <div className={`absolute block w-4 h-4 mt-1 ml-1 bg-white rounded-full shadow inset-y-0 left-0 focus-within:shadow-outline transition-transform duration-300 ease-in-out ${useAiAssist ? 'transform translate-x-4' : ''}`}></div>
-              </div>
-            </label>
-          )}
+                Check meaning
+              </label>
+            )}
+
+            {/* AI Assist Toggle (Only visible for Teacher) */}
+            {sender === 'teacher' && !isConversationMode && (
+              <label className="flex items-center gap-2 cursor-pointer group">
+                <span className={`text-xs font-medium transition-colors ${useAiAssist ? 'text-indigo-600' : 'text-gray-400'}`}>
+                  AI Assist
+                </span>
+                <div className="relative inline-block w-10 h-6 align-middle select-none">
+                  <input 
+                    type="checkbox" 
+                    checked={useAiAssist} 
+                    onChange={() => setUseAiAssist(!useAiAssist)} 
+                    className="hidden" 
+                  />
+                  <div className={`block w-10 h-6 rounded-full shadow-inner transition-colors duration-300 ${useAiAssist ? 'bg-indigo-600' : 'bg-gray-300'}`}></div>
+                  <div className={`absolute block w-4 h-4 mt-1 ml-1 bg-white rounded-full shadow inset-y-0 left-0 focus-within:shadow-outline transition-transform duration-300 ease-in-out ${useAiAssist ? 'transform translate-x-4' : ''}`}></div>
+                </div>
+              </label>
+            )}
+          </div>
         </div>
 
+        {/* Conversation status: who is expected next and what is being heard */}
+        {isConversationMode && (
+          <div className="px-3 py-2 rounded-xl bg-gray-50 border border-gray-100 text-sm" aria-live="polite">
+            <div className="flex items-center gap-2 text-gray-600">
+              <span className={`w-2 h-2 rounded-full ${isListening && !isBusy ? 'bg-red-500 animate-pulse' : 'bg-gray-300'}`}></span>
+              {isIdentifying
+                ? 'Checking who spoke...'
+                : isLoading
+                  ? 'Translating...'
+                  : isPlaying
+                    ? 'Playing translation...'
+                    : `Listening for ${sender === 'teacher' ? 'the teacher (English)' : `${studentName} (${studentLanguage})`}`}
+            </div>
+            {interimText && <p className="mt-1 text-gray-800 italic">{interimText}</p>}
+            {conversationHint && <p className="mt-1 text-xs text-amber-700">{conversationHint}</p>}
+          </div>
+        )}
+
         <div className="flex items-end gap-2">
           <div className={`flex-1 rounded-2xl flex items-center p-2 border transition-all ${sender === 'teacher' ? 'bg-indigo-50 border-indigo-100 focus-within:ring-indigo-500' : 'bg-emerald-50 border-emerald-100 focus-within:ring-emerald-500'} focus-within:bg-white focus-within:ring-2`}>
             <textarea
@@ -178,7 +439,7 @@ const InputArea: React.FC<InputAreaProps> = ({
               onKeyDown={handleKeyDown}
               placeholder={
                 sender === 'teacher' 
-                  ? (useAiAssist ? "What is your intent? (e.g. 'Ask him to focus')" : "Type message to translate...") 
+                  ? (useAiAssist && !isConversationMode ? "What is your intent? (e.g. 'Ask him to focus')" : "Type message to translate...") 
                   : `Type in ${studentLanguage}...`
               }
               rows={1}
@@ -188,11 +449,12 @@ const InputArea: React.FC<InputAreaProps> = ({
             
             <button
               onClick={toggleListening}
+              disabled={isConversationMode}
               className={`p-2.5 rounded-xl transition-all duration-300 ${
-                isListening 
+                isListening && !isConversationMode
                   ? 'bg-red-500 text-white animate-pulse shadow-red-200' 
                   : 'text-gray-500 hover:bg-black/5 hover:text-gray-700'
-              }`}
+              } disabled:opacity-50 disabled:hover:bg-transparent`}
               title={sender === 'teacher' ? "Speak English" : `Speak ${studentLanguage}`}
             >
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { LanguageInfo, findLanguage, findVoice, loadVoices, searchLanguages } from '../services/languages';
+
+interface LanguagePickerProps {
+  value: string;
+  onChange: (language: string) => void;
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then(list => { if (!cancelled) setVoices(list); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const selected = findLanguage(value);
+  const matches = searchLanguages(query);
+  const customName = query.trim();
+
+  // A voice installed on this device beats the registry's general expectation
+  const hasVoice = (language: LanguageInfo) => voices.length > 0 ? !!findVoice(language.code, voices) : language.tts;
+
+  const choose = (language: string) => {
+    onChange(language);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={isOpen ? query : value}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => { setQuery(''); setIsOpen(true); }}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && matches.length > 0) {
+            e.preventDefault();
+            choose(matches[0].name);
+          }
+          if (e.key === 'Escape') setIsOpen(false);
+        }}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+        placeholder={isOpen ? 'Search languages...' : 'e.g. Spanish'}
+      />
+
+      {!isOpen && value && (
+        <p className="text-xs text-gray-400 mt-1">
+          {selected
+            ? `${selected.code} • ${selected.script}${selected.direction === 'rtl' ? ' • right-to-left' : ''} • ${selected.stt ? 'voice input' : 'no voice input'} • ${hasVoice(selected) ? 'voice on this device' : 'no voice on this device'}`
+            : 'Not in the language list: translation works, but voice input and local voices may not.'}
+        </p>
+      )}
+
+      {isOpen && (
+        // onMouseDown keeps the input focused until the choice is made
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg custom-scrollbar">
+          {matches.map(language => (
+            <li key={language.code}>
+              <button
+                type="button"
+                onMouseDown={(e) => { e.preventDefault(); choose(language.name); }}
+                className={`w-full text-left px-3 py-2 flex items-center justify-between gap-2 hover:bg-indigo-50 ${language.name === selected?.name ? 'bg-indigo-50' : ''}`}
+              >
+                <span className="text-sm text-gray-900">
+                  {language.name}
+                  <span className="text-xs text-gray-400 ml-2">{language.code}</span>
+                </span>
+                <span className="flex gap-1 shrink-0">
+                  {language.direction === 'rtl' && (
+                    <span className="text-[10px] bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full">RTL</span>
+                  )}
+                  {language.stt && (
+                    <span className="text-[10px] bg-emerald-50 text-emerald-700 px-1.5 py-0.5 rounded-full" title="Voice input supported">Mic</span>
+                  )}
+                  {hasVoice(language) && (
+                    <span className="text-[10px] bg-indigo-50 text-indigo-700 px-1.5 py-0.5 rounded-full" title="A voice is available on this device">Voice</span>
+                  )}
+                </span>
+              </button>
+            </li>
+          ))}
+          {customName && !findLanguage(customName) && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => { e.preventDefault(); choose(customName); }}
+                className="w-full text-left px-3 py-2 text-sm text-indigo-600 hover:bg-indigo-50 border-t border-gray-100"
+              >
+                Use "{customName}" (not in the list)
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePicker;
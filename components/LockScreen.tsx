@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import ConfirmationModal from './ConfirmationModal';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onErase: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock, onErase }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isConfirmingErase, setIsConfirmingErase] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const success = await onUnlock(passphrase);
+      if (!success) {
+        setError("That passphrase is not correct.");
+        setPassphrase('');
+      }
+    } catch (err) {
+      console.error("Unlock failed", err);
+      setError("Could not unlock your data. Please try again.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-slate-50 p-4">
+      <ConfirmationModal
+        isOpen={isConfirmingErase}
+        title="Erase all local data?"
+        message="This permanently deletes every student profile and chat stored in this browser. Only do this if the passphrase is lost; you can restore a backup afterwards."
+        confirmLabel="Erase Everything"
+        isDestructive
+        onConfirm={onErase}
+        onCancel={() => setIsConfirmingErase(false)}
+      />
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-8 space-y-5 animate-fade-in-up">
+        <div className="flex flex-col items-center text-center gap-3">
+          <div className="bg-indigo-600 w-14 h-14 rounded-2xl flex items-center justify-center shadow-indigo-200 shadow-md">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-7 h-7 text-white">
+              <path fillRule="evenodd" d="M12 1.5a5.25 5.25 0 0 0-5.25 5.25v3a3 3 0 0 0-3 3v6.75a3 3 0 0 0 3 3h10.5a3 3 0 0 0 3-3v-6.75a3 3 0 0 0-3-3v-3c0-2.9-2.35-5.25-5.25-5.25Zm3.75 8.25v-3a3.75 3.75 0 1 0-7.5 0v3h7.5Z" clipRule="evenodd" />
+            </svg>
+          </div>
+          <div>
+            <h1 className="font-bold text-xl text-gray-900">Teacher's Aid is locked</h1>
+            <p className="text-sm text-gray-500">Enter your passphrase to open student profiles and chats.</p>
+          </div>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="Passphrase"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all shadow-lg shadow-indigo-200"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+
+        <p className="text-xs text-gray-400 text-center">
+          Forgotten passphrases cannot be recovered.{' '}
+          <button type="button" onClick={() => setIsConfirmingErase(true)} className="underline hover:text-red-600">
+            Erase local data
+          </button>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
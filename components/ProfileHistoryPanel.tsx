@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ProfileRevision, SensitivityTag, StudentProfile } from '../types';
+import { describeRevisionSource, diffLines, diffSensitivities } from '../services/profileHistory';
+import { SENSITIVITY_KINDS } from '../services/sensitivities';
+
+interface ProfileHistoryPanelProps {
+  student: StudentProfile; // As currently edited, including unsaved changes
+  onRestore: (revisionId: string) => void;
+}
+
+type CompareWith = 'previous' | 'current';
+
+const ROW_STYLES = {
+  same: { left: 'bg-white', right: 'bg-white' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-gray-50' },
+  added: { left: 'bg-gray-50', right: 'bg-emerald-50 text-emerald-800' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-emerald-50 text-emerald-800' }
+};
+
+const formatTag = (tag: SensitivityTag) =>
+  `${SENSITIVITY_KINDS[tag.kind].label}${tag.notes.trim() ? `: ${tag.notes.trim()}` : ''} (${tag.source === 'ai' ? 'AI' : 'teacher'})`;
+
+const ProfileHistoryPanel: React.FC<ProfileHistoryPanelProps> = ({ student, onRestore }) => {
+  const history = student.history || [];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>('previous');
+
+  if (history.length === 0) {
+    return <p className="text-xs text-gray-400">No earlier versions yet. Every change to the guide or sensitivities is kept here.</p>;
+  }
+
+  const selectedIndex = history.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? history[selectedIndex] : null;
+
+  // Left is always the older side
+  const before: Pick<ProfileRevision, 'guideBook' | 'sensitivities'> | null = selected
+    ? compareWith === 'previous'
+      ? history[selectedIndex - 1] || { guideBook: '', sensitivities: [] }
+      : selected
+    : null;
+  const after = selected
+    ? compareWith === 'previous'
+      ? selected
+      : { guideBook: student.guideBook || '', sensitivities: student.sensitivities }
+    : null;
+
+  const guideRows = before && after ? diffLines(before.guideBook, after.guideBook) : [];
+  const tagDiff = before && after ? diffSensitivities(before.sensitivities, after.sensitivities) : null;
+  const hasChanges = guideRows.some(row => row.kind !== 'same') || (!!tagDiff && (tagDiff.added.length > 0 || tagDiff.removed.length > 0));
+
+  return (
+    <div className="space-y-3">
+      <ul className="max-h-40 overflow-y-auto custom-scrollbar border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {[...history].reverse().map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+              className={`w-full text-left px-3 py-2 flex items-center justify-between gap-2 text-sm hover:bg-indigo-50 ${revision.id === selectedId ? 'bg-indigo-50' : ''}`}
+            >
+              <span className="flex items-center gap-2">
+                <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium ${revision.source === 'ai' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'}`}>
+                  {describeRevisionSource(revision)}
+                </span>
+                <span className="text-gray-700">{new Date(revision.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+              </span>
+              {index === 0 && <span className="text-[10px] text-gray-400 uppercase tracking-wide">Latest</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && before && after && tagDiff && (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <select
+              value={compareWith}
+              onChange={(e) => setCompareWith(e.target.value as CompareWith)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="previous">What this version changed</option>
+              <option value="current">This version vs. now</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => onRestore(selected.id)}
+              className="text-xs bg-indigo-600 text-white px-3 py-1.5 rounded-full font-medium hover:bg-indigo-700"
+            >
+              Restore This Version
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-[11px] font-bold text-gray-500 uppercase tracking-wider">
+            <span>{compareWith === 'previous' ? 'Before' : 'This version'}</span>
+            <span>{compareWith === 'previous' ? 'After' : 'Now'}</span>
+          </div>
+
+          {!hasChanges && <p className="text-xs text-gray-400">No differences.</p>}
+
+          {(tagDiff.removed.length > 0 || tagDiff.added.length > 0) && (
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <ul className="space-y-1">
+                {tagDiff.removed.map(tag => <li key={tag.id} className="px-2 py-1 rounded bg-red-50 text-red-800 line-through">{formatTag(tag)}</li>)}
+              </ul>
+              <ul className="space-y-1">
+                {tagDiff.added.map(tag => <li key={tag.id} className="px-2 py-1 rounded bg-emerald-50 text-emerald-800">{formatTag(tag)}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {hasChanges && guideRows.length > 0 && (
+            <div className="max-h-60 overflow-y-auto custom-scrollbar border border-gray-100 rounded text-xs font-mono">
+              {guideRows.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 gap-px bg-gray-100">
+                  <div className={`px-2 py-0.5 whitespace-pre-wrap ${ROW_STYLES[row.kind].left}`}>{row.left ?? ''}</div>
+                  <div className={`px-2 py-0.5 whitespace-pre-wrap ${ROW_STYLES[row.kind].right}`}>{row.right ?? ''}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileHistoryPanel;
@@ -1,19 +1,56 @@
 import React, { useState, useEffect } from 'react';
-import { AppData, StudentProfile, VoiceType } from '../types';
-import { generateGuideBook } from '../services/geminiService';
+import { AppData, StudentProfile, VoiceType, AISettings, AIProviderType, AITask, CommunicationMode } from '../types';
+import { generateGuideBook, testConnection } from '../services/geminiService';
+import { loadAiSettings, saveAiSettings, GEMINI_VOICES } from '../services/aiSettings';
+import { loadChatHistory, EncryptionSettings } from '../services/storage';
+import { isEncryptedBackup, decryptBackup, EncryptedBackup, BackupPasswordError } from '../services/backupFile';
+import { mergeChats } from '../services/backupMerge';
+import { removeStudentFromClasses } from '../services/classes';
+import { toAIError } from '../services/aiErrors';
+import { recordRevision, restoreRevision } from '../services/profileHistory';
+import { queueProposedChanges, acceptProposedChange, rejectProposedChange, getPendingChanges } from '../services/profileReview';
+import { COMMUNICATION_MODES } from '../services/communicationMode';
+import { generateId } from '../services/ids';
 import ConfirmationModal from './ConfirmationModal';
+import ClassManager from './ClassManager';
+import SensitivityEditor from './SensitivityEditor';
+import LanguagePicker from './LanguagePicker';
+import VoiceSettingsEditor from './VoiceSettingsEditor';
+import SafeguardingManager from './SafeguardingManager';
+import ProfileHistoryPanel from './ProfileHistoryPanel';
+import ProposedChangesReview from './ProposedChangesReview';
 
 interface ProfileModalProps {
   isOpen: boolean;
   onClose: () => void;
   data: AppData;
   onSave: (data: AppData) => void;
-  onImport: (file: File) => void;
-  onExport: () => void;
+  onImport: (raw: unknown) => Promise<void>;
+  onExport: (password?: string, classId?: string) => Promise<void>;
   onLoadDemo: (type: 'esl' | 'neurodivergent') => void;
+  encryption: EncryptionSettings;
+  onSetPassphrase: (passphrase: string | null) => Promise<void>;
+  onSetAutoLock: (minutes: number) => Promise<void>;
+  onLockNow: () => void;
 }
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 5, label: 'After 5 minutes' },
+  { value: 10, label: 'After 10 minutes' },
+  { value: 15, label: 'After 15 minutes' },
+  { value: 30, label: 'After 30 minutes' },
+  { value: 60, label: 'After 1 hour' }
+];
+
+const MODEL_TASKS: { key: AITask; label: string }[] = [
+  { key: 'translation', label: 'Translation' },
+  { key: 'options', label: 'AI Assist Options' },
+  { key: 'guideBook', label: 'Guidebook Analysis' },
+  { key: 'speech', label: 'Text-to-Speech' }
+];
 
 const ProfileModal: React.FC<ProfileModalProps> = ({ 
   isOpen, 
@@ -22,12 +59,33 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
   onSave, 
   onImport, 
   onExport,
-  onLoadDemo
+  onLoadDemo,
+  encryption,
+  onSetPassphrase,
+  onSetAutoLock,
+  onLockNow
 }) => {
-  const [activeTab, setActiveTab] = useState<'general' | 'students' | 'data' | 'about'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'ai' | 'students' | 'classes' | 'safeguarding' | 'data' | 'about'>('general');
   const [formData, setFormData] = useState<AppData>(data);
   const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
   const [isGeneratingGuide, setIsGeneratingGuide] = useState(false);
+  const [aiSettings, setAiSettings] = useState<AISettings>(loadAiSettings);
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<{ state: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
+  
+  // Passphrase form
+  const [passphraseForm, setPassphraseForm] = useState({ passphrase: '', confirm: '' });
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [isSavingPassphrase, setIsSavingPassphrase] = useState(false);
+
+  // Password-protected backups
+  const [exportClassId, setExportClassId] = useState(''); // Empty exports every class
+  const [protectExport, setProtectExport] = useState(false);
+  const [exportPassword, setExportPassword] = useState({ password: '', confirm: '' });
+  const [encryptedImport, setEncryptedImport] = useState<{ fileName: string; backup: EncryptedBackup } | null>(null);
+  const [importPassword, setImportPassword] = useState('');
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [isProcessingBackup, setIsProcessingBackup] = useState(false);
   
   // Confirmation Modal State
   const [confirmModal, setConfirmModal] = useState<{
@@ -50,7 +108,8 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
     name: '',
     language: '',
     age: 6,
-    sensitivities: '',
+    mode: 'translate',
+    sensitivities: [],
     guideBook: ''
   });
 
@@ -58,6 +117,15 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
     setFormData(data);
   }, [data, isOpen]);
 
+  useEffect(() => {
+    if (isOpen) {
+      setAiSettings(loadAiSettings());
+      setConnectionStatus({ state: 'idle' });
+      setPassphraseForm({ passphrase: '', confirm: '' });
+      setPassphraseError(null);
+    }
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   // --- Handlers for Global Data ---
@@ -70,6 +138,30 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
     setFormData(prev => ({ ...prev, preferredVoice: e.target.value as VoiceType }));
   };
 
+  const handleAiSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setAiSettings(prev => ({ ...prev, [name]: value }));
+    setConnectionStatus({ state: 'idle' });
+  };
+
+  const currentModels = aiSettings.provider === AIProviderType.OPENAI_COMPATIBLE ? aiSettings.openAiModels : aiSettings.geminiModels;
+
+  const handleModelChange = (task: AITask, model: string) => {
+    const key = aiSettings.provider === AIProviderType.OPENAI_COMPATIBLE ? 'openAiModels' : 'geminiModels';
+    setAiSettings(prev => ({ ...prev, [key]: { ...prev[key], [task]: model } }));
+    setConnectionStatus({ state: 'idle' });
+  };
+
+  const handleTestConnection = async () => {
+    setConnectionStatus({ state: 'testing' });
+    try {
+      await testConnection(aiSettings);
+      setConnectionStatus({ state: 'ok' });
+    } catch (e) {
+      setConnectionStatus({ state: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
   // --- Handlers for Student Management ---
 
   const startEditStudent = (student: StudentProfile) => {
@@ -84,7 +176,8 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
       name: '',
       language: '',
       age: 6,
-      sensitivities: '',
+      mode: 'translate',
+      sensitivities: [],
       guideBook: ''
     });
   };
@@ -95,24 +188,30 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
 
   const saveStudent = () => {
     if (!tempStudent.name || !tempStudent.language) return;
+    const savedStudent = recordRevision(tempStudent, 'teacher');
 
     setFormData(prev => {
       let updatedStudents;
       let newChats = { ...prev.chats };
 
+      let updatedClasses = prev.classes;
+
       if (editingStudentId === 'new') {
-        updatedStudents = [...prev.students, tempStudent];
-        newChats[tempStudent.id] = [];
+        updatedStudents = [...prev.students, savedStudent];
+        newChats[savedStudent.id] = [];
+        // New students join the class that is currently open
+        updatedClasses = prev.classes.map(c => c.id === prev.activeClassId ? { ...c, studentIds: [...c.studentIds, savedStudent.id] } : c);
       } else {
-        updatedStudents = prev.students.map(s => s.id === tempStudent.id ? tempStudent : s);
+        updatedStudents = prev.students.map(s => s.id === savedStudent.id ? savedStudent : s);
       }
       
-      const newCurrentId = prev.currentStudentId || tempStudent.id;
+      const newCurrentId = prev.currentStudentId || savedStudent.id;
 
       return {
         ...prev,
         students: updatedStudents,
         chats: newChats,
+        classes: updatedClasses,
         currentStudentId: newCurrentId
       };
     });
@@ -140,6 +239,8 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
             ...prev,
             students: remainingStudents,
             chats: newChats,
+            classes: removeStudentFromClasses(prev.classes, id),
+            outbox: prev.outbox.filter(entry => entry.studentId !== id),
             currentStudentId: newCurrentId
           };
         });
@@ -148,6 +249,16 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
     });
   };
 
+  // --- Classes ---
+
+  const handleClassesChange = (classes: AppData['classes']) => {
+    setFormData(prev => ({
+      ...prev,
+      classes,
+      activeClassId: classes.some(c => c.id === prev.activeClassId) ? prev.activeClassId : ''
+    }));
+  };
+
   const handleSelectStudent = (id: string) => {
     setFormData(prev => ({ ...prev, currentStudentId: id }));
   };
@@ -164,17 +275,19 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
     }
 
     setIsGeneratingGuide(true);
-    const chats = formData.chats[tempStudent.id] || [];
     try {
+      // The stored history may not be loaded yet, or only partly, e.g. after a broadcast
+      const chats = mergeChats(formData.chats[tempStudent.id] || [], await loadChatHistory(tempStudent.id));
       const result = await generateGuideBook(tempStudent, chats);
-      setTempStudent(prev => ({
-        ...prev,
-        guideBook: result.guide,
-        sensitivities: result.updatedSensitivities // Automatically update sensitivities with new insights
-      }));
+      // Unsaved edits are recorded as the teacher's first, so the AI's guide shows up on its own.
+      // Suggested tag changes go to the review queue below the tags.
+      setTempStudent(prev => {
+        const edited = recordRevision(prev, 'teacher');
+        return queueProposedChanges(recordRevision({ ...edited, guideBook: result.guide }, 'ai'), result.proposedChanges, chats);
+      });
     } catch (e) {
       console.error(e);
-      alert("Failed to generate guide.");
+      alert(`Failed to generate guide.\n\n${toAIError(e).message}`);
     } finally {
       setIsGeneratingGuide(false);
     }
@@ -183,17 +296,124 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
   // --- Final Save ---
 
   const handleSaveAll = () => {
+    saveAiSettings(aiSettings);
     onSave(formData);
     onClose();
   };
 
   // --- Import/Export ---
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onImport(e.target.files[0]);
+  const handleExportClick = async () => {
+    if (protectExport) {
+      if (exportPassword.password.length < MIN_PASSPHRASE_LENGTH) {
+        setBackupError(`Use a backup password of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (exportPassword.password !== exportPassword.confirm) {
+        setBackupError("The backup passwords do not match.");
+        return;
+      }
+    }
+
+    setIsProcessingBackup(true);
+    setBackupError(null);
+    try {
+      const classId = data.classes.some(c => c.id === exportClassId) ? exportClassId : undefined;
+      await onExport(protectExport ? exportPassword.password : undefined, classId);
+      setExportPassword({ password: '', confirm: '' });
+    } catch (e) {
+      console.error("Export failed", e);
+      setBackupError("Failed to create the backup.");
+    } finally {
+      setIsProcessingBackup(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setBackupError(null);
+    setEncryptedImport(null);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (err) {
+      alert("Failed to parse backup file.");
+      return;
+    }
+
+    if (isEncryptedBackup(raw)) {
+      setImportPassword('');
+      setEncryptedImport({ fileName: file.name, backup: raw });
+    } else {
+      await onImport(raw);
     }
   };
 
+  const handleUnlockBackup = async () => {
+    if (!encryptedImport || !importPassword) return;
+
+    setIsProcessingBackup(true);
+    setBackupError(null);
+    try {
+      const raw = await decryptBackup(encryptedImport.backup, importPassword);
+      setEncryptedImport(null);
+      setImportPassword('');
+      await onImport(raw);
+    } catch (e) {
+      if (!(e instanceof BackupPasswordError)) console.error(e);
+      setBackupError(e instanceof Error && e.message ? e.message : "Failed to decrypt the backup.");
+    } finally {
+      setIsProcessingBackup(false);
+    }
+  };
+
+  // --- Encryption ---
+  const handleSavePassphrase = async () => {
+    if (passphraseForm.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setPassphraseError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphraseForm.passphrase !== passphraseForm.confirm) {
+      setPassphraseError("The passphrases do not match.");
+      return;
+    }
+
+    setIsSavingPassphrase(true);
+    setPassphraseError(null);
+    try {
+      await onSetPassphrase(passphraseForm.passphrase);
+      setPassphraseForm({ passphrase: '', confirm: '' });
+    } catch (e) {
+      console.error(e);
+      setPassphraseError(e instanceof Error && e.message ? e.message : "Failed to encrypt data.");
+    } finally {
+      setIsSavingPassphrase(false);
+    }
+  };
+
+  const confirmRemovePassphrase = () => {
+    setConfirmModal({
+      isOpen: true,
+      title: "Remove Passphrase?",
+      message: "Student profiles and chats will be stored unencrypted in this browser. Anyone using this computer will be able to read them.",
+      isDestructive: true,
+      onConfirm: async () => {
+        setConfirmModal(prev => ({ ...prev, isOpen: false }));
+        setIsSavingPassphrase(true);
+        try {
+          await onSetPassphrase(null);
+        } catch (e) {
+          console.error(e);
+          setPassphraseError(e instanceof Error && e.message ? e.message : "Failed to decrypt data.");
+        } finally {
+          setIsSavingPassphrase(false);
+        }
+      }
+    });
+  };
+
   // --- Demo Loading ---
   const confirmLoadDemo = (type: 'esl' | 'neurodivergent') => {
     const label = type === 'esl' ? 'ESL Demo (Hiroto)' : 'Neurodivergent Demo (Sam)';
@@ -233,7 +453,10 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
           {/* Tabs */}
           <div className="flex border-b border-gray-200 px-6 pt-4 space-x-6 shrink-0 overflow-x-auto">
             <button onClick={() => setActiveTab('general')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'general' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>General</button>
+            <button onClick={() => setActiveTab('ai')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'ai' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>AI Service</button>
             <button onClick={() => setActiveTab('students')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'students' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>Students</button>
+            <button onClick={() => setActiveTab('classes')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'classes' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>Classes</button>
+            <button onClick={() => setActiveTab('safeguarding')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'safeguarding' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>Safeguarding</button>
             <button onClick={() => setActiveTab('data')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'data' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>Data</button>
             <button onClick={() => setActiveTab('about')} className={`pb-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'about' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>About</button>
           </div>
@@ -289,6 +512,151 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                     </label>
                   </div>
                 </div>
+
+                <label className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={formData.checkFidelity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, checkFidelity: e.target.checked }))}
+                    className="mt-1 accent-indigo-600"
+                  />
+                  <div>
+                    <span className="block font-medium text-gray-900">Check every translation</span>
+                    <span className="text-xs text-gray-500">
+                      Translate each message back into English and show how far the meaning drifted. Uses two extra AI requests per message; without it, use "Check meaning" for single messages.
+                    </span>
+                  </div>
+                </label>
+              </div>
+            )}
+
+            {/* AI Service Tab */}
+            {activeTab === 'ai' && (
+              <div className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">AI Backend</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    {[
+                      { value: AIProviderType.GEMINI, label: 'Google Gemini', hint: 'Cloud, best quality' },
+                      { value: AIProviderType.OPENAI_COMPATIBLE, label: 'Local Server', hint: 'OpenAI-compatible API' },
+                      { value: AIProviderType.MOCK, label: 'Demo Mode', hint: 'No key, simulated replies' }
+                    ].map(option => (
+                      <label key={option.value} className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-all ${aiSettings.provider === option.value ? 'border-indigo-500 bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                        <input 
+                          type="radio" 
+                          name="provider" 
+                          value={option.value}
+                          checked={aiSettings.provider === option.value}
+                          onChange={handleAiSettingChange}
+                          className="text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div>
+                          <span className="block font-medium text-gray-900">{option.label}</span>
+                          <span className="text-xs text-gray-500">{option.hint}</span>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {aiSettings.provider === AIProviderType.MOCK ? (
+                  <div className="text-sm text-gray-500 bg-gray-50 rounded-xl border border-dashed border-gray-200 p-4">
+                    Demo Mode answers instantly with predictable, simulated translations. Nothing is sent over the network, which makes it safe for staff training.
+                  </div>
+                ) : (
+                  <>
+                    {aiSettings.provider === AIProviderType.OPENAI_COMPATIBLE && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+                        <input
+                          type="text"
+                          name="openAiBaseUrl"
+                          value={aiSettings.openAiBaseUrl}
+                          onChange={handleAiSettingChange}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                          placeholder="http://localhost:11434/v1"
+                        />
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        API Key {aiSettings.provider === AIProviderType.OPENAI_COMPATIBLE && <span className="text-gray-400 font-normal">(optional)</span>}
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          type={showApiKey ? 'text' : 'password'}
+                          name={aiSettings.provider === AIProviderType.GEMINI ? 'geminiApiKey' : 'openAiApiKey'}
+                          value={aiSettings.provider === AIProviderType.GEMINI ? aiSettings.geminiApiKey : aiSettings.openAiApiKey}
+                          onChange={handleAiSettingChange}
+                          autoComplete="off"
+                          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+                          placeholder={aiSettings.provider === AIProviderType.GEMINI ? 'Paste your Google AI Studio key' : 'sk-...'}
+                        />
+                        <button
+                          onClick={() => setShowApiKey(prev => !prev)}
+                          className="px-3 text-xs font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200"
+                        >
+                          {showApiKey ? 'Hide' : 'Show'}
+                        </button>
+                        <button
+                          onClick={handleTestConnection}
+                          disabled={connectionStatus.state === 'testing'}
+                          className="px-4 text-sm font-medium bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 disabled:opacity-50"
+                        >
+                          {connectionStatus.state === 'testing' ? 'Testing...' : 'Test'}
+                        </button>
+                      </div>
+                      {connectionStatus.state === 'ok' && (
+                        <p className="text-xs text-emerald-600 mt-1">Connection successful.</p>
+                      )}
+                      {connectionStatus.state === 'error' && (
+                        <p className="text-xs text-red-600 mt-1">Connection failed: {connectionStatus.message}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">Stored only in this browser and never included in backups.</p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Models</label>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {MODEL_TASKS.map(task => (
+                          <div key={task.key}>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">{task.label}</label>
+                            <input
+                              type="text"
+                              value={currentModels[task.key]}
+                              onChange={(e) => handleModelChange(task.key, e.target.value)}
+                              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">AI Voice</label>
+                      {aiSettings.provider === AIProviderType.GEMINI ? (
+                        <select
+                          name="geminiVoice"
+                          value={aiSettings.geminiVoice}
+                          onChange={handleAiSettingChange}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                        >
+                          {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                        </select>
+                      ) : (
+                        <input
+                          type="text"
+                          name="openAiVoice"
+                          value={aiSettings.openAiVoice}
+                          onChange={handleAiSettingChange}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                          placeholder="alloy"
+                        />
+                      )}
+                    </div>
+                  </>
+                )}
               </div>
             )}
 
@@ -328,6 +696,9 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                                  {student.guideBook && (
                                    <span className="text-[10px] bg-emerald-100 text-emerald-800 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-emerald-200">Guide Ready</span>
                                  )}
+                                 {getPendingChanges(student).length > 0 && (
+                                   <span className="text-[10px] bg-purple-100 text-purple-800 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-purple-200">{getPendingChanges(student).length} to review</span>
+                                 )}
                                </div>
                                <div className="text-sm text-gray-500">{student.language} • {student.age} yrs</div>
                             </div>
@@ -406,27 +777,57 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
-                      <input
-                        type="text"
-                        name="language"
+                      <LanguagePicker
                         value={tempStudent.language}
-                        onChange={handleTempStudentChange}
-                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                        placeholder="e.g. Spanish"
+                        onChange={(language) => setTempStudent(prev => ({ ...prev, language }))}
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">Sensitivities</label>
-                      <textarea
-                        name="sensitivities"
-                        rows={3}
-                        value={tempStudent.sensitivities}
-                        onChange={handleTempStudentChange}
-                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
-                        placeholder="e.g. Shy, likes praise..."
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Communication Mode</label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {(Object.entries(COMMUNICATION_MODES) as [CommunicationMode, typeof COMMUNICATION_MODES[CommunicationMode]][]).map(([mode, info]) => (
+                          <label
+                            key={mode}
+                            className={`flex flex-col p-2 border rounded-lg cursor-pointer transition-all ${tempStudent.mode === mode ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500' : 'hover:bg-gray-50'}`}
+                          >
+                            <input
+                              type="radio"
+                              name="mode"
+                              value={mode}
+                              checked={tempStudent.mode === mode}
+                              onChange={() => setTempStudent(prev => ({ ...prev, mode }))}
+                              className="sr-only"
+                            />
+                            <span className="text-sm font-semibold text-gray-900">{info.label}</span>
+                            <span className="text-[11px] text-gray-500 leading-snug">{info.description}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Voice</label>
+                      <VoiceSettingsEditor
+                        value={tempStudent.voice}
+                        studentName={tempStudent.name}
+                        language={tempStudent.language}
+                        preferredVoice={formData.preferredVoice}
+                        onChange={(voice) => setTempStudent(prev => ({ ...prev, voice }))}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Needs & Sensitivities</label>
+                      <SensitivityEditor
+                        tags={tempStudent.sensitivities}
+                        onChange={(sensitivities) => setTempStudent(prev => ({ ...prev, sensitivities }))}
                       />
-                      <p className="text-xs text-gray-400 mt-1">Can be auto-updated by analyzing chats.</p>
+                      <p className="text-xs text-gray-400 mt-1">Analyzing chats suggests changes for you to review; your own tags are never suggested for removal.</p>
                     </div>
+
+                    <ProposedChangesReview
+                      changes={getPendingChanges(tempStudent)}
+                      onAccept={(changeId, edited) => setTempStudent(prev => acceptProposedChange(recordRevision(prev, 'teacher'), changeId, edited))}
+                      onReject={(changeId) => setTempStudent(prev => rejectProposedChange(prev, changeId))}
+                    />
                     
                     {tempStudent.guideBook && (
                       <div className="bg-emerald-50 rounded-xl p-4 border border-emerald-100">
@@ -440,6 +841,16 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                       </div>
                     )}
 
+                    {editingStudentId !== 'new' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Version History</label>
+                        <ProfileHistoryPanel
+                          student={tempStudent}
+                          onRestore={(revisionId) => setTempStudent(prev => restoreRevision(recordRevision(prev, 'teacher'), revisionId))}
+                        />
+                      </div>
+                    )}
+
                     <div className="flex gap-3 pt-2">
                       <button onClick={saveStudent} className="flex-1 bg-indigo-600 text-white font-bold py-2 rounded-lg hover:bg-indigo-700">Save Student</button>
                       <button onClick={cancelEditStudent} className="flex-1 bg-gray-100 text-gray-700 font-bold py-2 rounded-lg hover:bg-gray-200">Cancel</button>
@@ -449,21 +860,41 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
               </div>
             )}
 
+            {/* Classes Tab */}
+            {activeTab === 'classes' && (
+              <ClassManager
+                classes={formData.classes}
+                students={formData.students}
+                teacherName={formData.teacherName}
+                onChange={handleClassesChange}
+              />
+            )}
+
+            {/* Safeguarding Tab */}
+            {activeTab === 'safeguarding' && (
+              <SafeguardingManager
+                settings={formData.safeguarding}
+                incidentLog={data.incidentLog}
+                onChange={(safeguarding) => setFormData(prev => ({ ...prev, safeguarding }))}
+              />
+            )}
+
             {/* Data Tab */}
             {activeTab === 'data' && (
               <div className="space-y-6">
                 <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
                    <h4 className="font-bold text-yellow-800 mb-1">Backup & Restore</h4>
                    <p className="text-sm text-yellow-700 mb-4">
-                     Save your student profiles and chat history to your computer, or restore from a previous backup.
+                     Save your student profiles and chat history to your computer, or restore from a previous backup. When restoring, you choose per student whether to keep, replace or merge.
                    </p>
                    <div className="flex gap-3">
                      <button 
-                       onClick={onExport}
-                       className="flex items-center justify-center gap-2 bg-white border border-yellow-300 text-yellow-800 px-4 py-2 rounded-lg font-medium hover:bg-yellow-100 transition-colors w-full"
+                       onClick={handleExportClick}
+                       disabled={isProcessingBackup}
+                       className="flex items-center justify-center gap-2 bg-white border border-yellow-300 text-yellow-800 px-4 py-2 rounded-lg font-medium hover:bg-yellow-100 transition-colors w-full disabled:opacity-50"
                      >
                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.965 3.129V2.75z" /><path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" /></svg>
-                       Download Backup
+                       {protectExport ? 'Download Encrypted Backup' : 'Download Backup'}
                      </button>
                      <label className="flex items-center justify-center gap-2 bg-yellow-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-yellow-700 transition-colors w-full cursor-pointer">
                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4"><path d="M9.25 13.25a.75.75 0 001.5 0V4.636l2.955 3.129a.75.75 0 001.09-1.03l-4.25-4.5a.75.75 0 00-1.09 0l-4.25 4.5a.75.75 0 101.09 1.03l2.955-3.129v8.614z" /><path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" /></svg>
@@ -471,6 +902,156 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                        <input type="file" accept=".json" onChange={handleFileChange} className="hidden" />
                      </label>
                    </div>
+
+                   {/* Exports use saved data, so only saved classes are offered */}
+                   {data.classes.length > 0 && (
+                     <select
+                       value={data.classes.some(c => c.id === exportClassId) ? exportClassId : ''}
+                       onChange={(e) => setExportClassId(e.target.value)}
+                       className="w-full mt-4 px-4 py-2 border border-yellow-300 rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none bg-white text-sm text-yellow-900"
+                     >
+                       <option value="">Back up all classes and students</option>
+                       {data.classes.map(c => (
+                         <option key={c.id} value={c.id}>Back up only {c.name} ({c.studentIds.length} students)</option>
+                       ))}
+                     </select>
+                   )}
+
+                   <label className="flex items-center gap-2 mt-4 text-sm text-yellow-800 cursor-pointer">
+                     <input
+                       type="checkbox"
+                       checked={protectExport}
+                       onChange={(e) => { setProtectExport(e.target.checked); setBackupError(null); }}
+                       className="rounded text-yellow-600 focus:ring-yellow-500"
+                     />
+                     Protect the backup file with a password
+                   </label>
+                   {protectExport && (
+                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3">
+                       <input
+                         type="password"
+                         value={exportPassword.password}
+                         onChange={(e) => setExportPassword(prev => ({ ...prev, password: e.target.value }))}
+                         autoComplete="new-password"
+                         className="w-full px-4 py-2 border border-yellow-300 rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none bg-white text-sm"
+                         placeholder="Backup password"
+                       />
+                       <input
+                         type="password"
+                         value={exportPassword.confirm}
+                         onChange={(e) => setExportPassword(prev => ({ ...prev, confirm: e.target.value }))}
+                         autoComplete="new-password"
+                         className="w-full px-4 py-2 border border-yellow-300 rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none bg-white text-sm"
+                         placeholder="Confirm password"
+                       />
+                       <p className="sm:col-span-2 text-xs text-yellow-700">
+                         The file is encrypted and cannot be opened or restored without this password. It is separate from your device passphrase.
+                       </p>
+                     </div>
+                   )}
+
+                   {encryptedImport && (
+                     <div className="mt-4 bg-white border border-yellow-300 rounded-lg p-3 space-y-2">
+                       <p className="text-sm text-yellow-800">
+                         <span className="font-medium">{encryptedImport.fileName}</span> is password protected.
+                       </p>
+                       <div className="flex gap-2">
+                         <input
+                           type="password"
+                           value={importPassword}
+                           onChange={(e) => setImportPassword(e.target.value)}
+                           onKeyDown={(e) => e.key === 'Enter' && handleUnlockBackup()}
+                           autoFocus
+                           autoComplete="off"
+                           className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 outline-none text-sm"
+                           placeholder="Backup password"
+                         />
+                         <button
+                           onClick={handleUnlockBackup}
+                           disabled={!importPassword || isProcessingBackup}
+                           className="px-4 py-2 text-sm font-medium bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+                         >
+                           {isProcessingBackup ? 'Decrypting...' : 'Open'}
+                         </button>
+                         <button
+                           onClick={() => { setEncryptedImport(null); setBackupError(null); }}
+                           className="px-3 py-2 text-sm font-medium text-gray-500 hover:text-gray-700"
+                         >
+                           Cancel
+                         </button>
+                       </div>
+                     </div>
+                   )}
+
+                   {backupError && <p className="text-sm text-red-600 mt-3">{backupError}</p>}
+                </div>
+
+                <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
+                   <div className="flex justify-between items-center mb-1">
+                     <h4 className="font-bold text-gray-900">Passphrase Protection</h4>
+                     {encryption.enabled && (
+                       <span className="text-[10px] bg-emerald-100 text-emerald-800 px-1.5 py-0.5 rounded-full uppercase tracking-wide border border-emerald-200">Encrypted</span>
+                     )}
+                   </div>
+                   <p className="text-sm text-gray-600 mb-4">
+                     {encryption.enabled
+                       ? "Profiles, guides and chats are encrypted in this browser. The app asks for your passphrase when it opens."
+                       : "Encrypt profiles, guides and chats on this computer with a passphrase. If you forget it, the data cannot be recovered, so download a backup first."}
+                   </p>
+
+                   {encryption.enabled && (
+                     <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                       <select
+                         value={encryption.autoLockMinutes}
+                         onChange={(e) => onSetAutoLock(parseInt(e.target.value))}
+                         className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-sm"
+                       >
+                         {AUTO_LOCK_OPTIONS.map(option => (
+                           <option key={option.value} value={option.value}>Auto-lock: {option.label}</option>
+                         ))}
+                       </select>
+                       <button
+                         onClick={onLockNow}
+                         className="px-4 py-2 text-sm font-medium bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100"
+                       >
+                         Lock Now
+                       </button>
+                       <button
+                         onClick={confirmRemovePassphrase}
+                         disabled={isSavingPassphrase}
+                         className="px-4 py-2 text-sm font-medium bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                       >
+                         Remove Passphrase
+                       </button>
+                     </div>
+                   )}
+
+                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                     <input
+                       type="password"
+                       value={passphraseForm.passphrase}
+                       onChange={(e) => setPassphraseForm(prev => ({ ...prev, passphrase: e.target.value }))}
+                       autoComplete="new-password"
+                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                       placeholder={encryption.enabled ? "New passphrase" : "Passphrase"}
+                     />
+                     <input
+                       type="password"
+                       value={passphraseForm.confirm}
+                       onChange={(e) => setPassphraseForm(prev => ({ ...prev, confirm: e.target.value }))}
+                       autoComplete="new-password"
+                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                       placeholder="Confirm passphrase"
+                     />
+                   </div>
+                   {passphraseError && <p className="text-xs text-red-600 mt-2">{passphraseError}</p>}
+                   <button
+                     onClick={handleSavePassphrase}
+                     disabled={isSavingPassphrase || !passphraseForm.passphrase}
+                     className="mt-3 w-full bg-gray-900 text-white px-4 py-2 rounded-lg font-medium hover:bg-gray-800 disabled:opacity-50 transition-colors text-sm"
+                   >
+                     {isSavingPassphrase ? 'Encrypting...' : encryption.enabled ? 'Change Passphrase' : 'Enable Encryption'}
+                   </button>
                 </div>
 
                 <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4">
@@ -560,7 +1141,7 @@ const ProfileModal: React.FC<ProfileModalProps> = ({
                          This application is designed with privacy in mind.
                        </p>
                        <ul className="list-disc list-inside text-sm text-gray-600 space-y-1 ml-1">
-                         <li>All student profiles and chat history are stored <b>locally in your browser</b>.</li>
+                         <li>All student profiles and chat history are stored <b>locally in your browser</b>, optionally encrypted with your passphrase.</li>
                          <li>We do not have a central database of your students.</li>
                          <li>Text is sent to Google's Gemini API for processing but is not used to train their models (enterprise privacy standards apply).</li>
                          <li>If you clear your browser cache, your data will be lost unless you use the "Backup" feature in the Data tab.</li>
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ProposedChange, SensitivityKind } from '../types';
+import { SENSITIVITY_KINDS } from '../services/sensitivities';
+
+interface ProposedChangesReviewProps {
+  changes: ProposedChange[];
+  onAccept: (changeId: string, edited?: { kind: SensitivityKind; notes: string }) => void;
+  onReject: (changeId: string) => void;
+}
+
+const KIND_OPTIONS = Object.entries(SENSITIVITY_KINDS) as [SensitivityKind, typeof SENSITIVITY_KINDS[SensitivityKind]][];
+
+const ProposedChangesReview: React.FC<ProposedChangesReviewProps> = ({ changes, onAccept, onReject }) => {
+  const [editing, setEditing] = useState<{ id: string; kind: SensitivityKind; notes: string } | null>(null);
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-purple-50 border border-purple-100 rounded-xl p-3 space-y-2">
+      <div>
+        <h4 className="font-bold text-purple-900 text-sm">Suggested Changes ({changes.length})</h4>
+        <p className="text-[11px] text-purple-700">From AI analysis of the chats. Nothing changes until you accept it.</p>
+      </div>
+
+      {changes.map(change => {
+        const isEditing = editing?.id === change.id;
+        return (
+          <div key={change.id} className="bg-white border border-purple-100 rounded-lg p-3 space-y-2">
+            {isEditing ? (
+              <div className="flex gap-2">
+                <select
+                  value={editing.kind}
+                  onChange={(e) => setEditing({ ...editing, kind: e.target.value as SensitivityKind })}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  {KIND_OPTIONS.map(([kind, info]) => <option key={kind} value={kind}>{info.label}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={editing.notes}
+                  onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-gray-900">
+                <span className={`text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded-full mr-2 ${change.action === 'add' ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}`}>
+                  {change.action === 'add' ? 'Add' : 'Remove'}
+                </span>
+                <span className="font-medium">{SENSITIVITY_KINDS[change.kind].label}:</span> {change.notes}
+              </p>
+            )}
+
+            {change.evidence.length > 0 ? (
+              <ul className="space-y-0.5 text-xs text-gray-500 border-l-2 border-purple-200 pl-2">
+                {change.evidence.map((line, index) => <li key={index} dir="auto" className="italic">"{line}"</li>)}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-400">No chat evidence given.</p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {isEditing ? (
+                <>
+                  <button type="button" onClick={() => setEditing(null)} className="text-xs text-gray-500 px-3 py-1 rounded-full hover:bg-gray-100">Cancel</button>
+                  <button
+                    type="button"
+                    onClick={() => { onAccept(change.id, { kind: editing.kind, notes: editing.notes }); setEditing(null); }}
+                    disabled={!editing.notes.trim()}
+                    className="text-xs bg-emerald-600 text-white px-3 py-1 rounded-full font-medium hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    Accept Edited
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button type="button" onClick={() => onReject(change.id)} className="text-xs text-gray-600 px-3 py-1 rounded-full border border-gray-200 hover:bg-gray-100">Reject</button>
+                  {change.action === 'add' && (
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ id: change.id, kind: change.kind, notes: change.notes })}
+                      className="text-xs text-indigo-700 px-3 py-1 rounded-full bg-indigo-50 hover:bg-indigo-100"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button type="button" onClick={() => onAccept(change.id)} className="text-xs bg-emerald-600 text-white px-3 py-1 rounded-full font-medium hover:bg-emerald-700">Accept</button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProposedChangesReview;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { IncidentEntry, SafeguardingSettings } from '../types';
+import { INCIDENT_ACTIONS } from '../services/incidentLog';
+
+interface SafeguardingAlertProps {
+  entries: IncidentEntry[]; // This incident's entries, the disclosure first
+  settings: SafeguardingSettings;
+  onRecordAction: (action: string, note: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Opens as soon as a student message may be a disclosure. Closing it is always allowed;
+// the disclosure itself is already in the incident log by then.
+const SafeguardingAlert: React.FC<SafeguardingAlertProps> = ({ entries, settings, onRecordAction, onClose }) => {
+  const [action, setAction] = useState(INCIDENT_ACTIONS[0]);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const disclosure = entries.find(entry => entry.type === 'disclosure');
+  const actions = entries.filter(entry => entry.type === 'action');
+
+  const handleRecord = async () => {
+    setIsSaving(true);
+    try {
+      await onRecordAction(action, note.trim());
+      setNote('');
+    } catch (e) {
+      console.error("Failed to record safeguarding action", e);
+      alert("The action could not be recorded. Please write it down and try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="bg-red-600 px-6 py-4 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-bold text-white">Possible Safeguarding Disclosure</h2>
+          <button onClick={onClose} className="text-white/80 hover:text-white text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+          {disclosure ? (
+            <div className="space-y-2 text-sm">
+              <p className="text-red-800 font-medium">{disclosure.reason}</p>
+              <div className="rounded-xl border border-gray-200 p-3 space-y-2">
+                <div>
+                  <span className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider">{disclosure.studentName} said ({disclosure.language})</span>
+                  <p dir="auto" className="text-gray-900">{disclosure.originalText}</p>
+                </div>
+                <div>
+                  <span className="block text-[11px] font-bold text-gray-500 uppercase tracking-wider">Translation</span>
+                  <p className="text-gray-900">{disclosure.translatedText}</p>
+                </div>
+              </div>
+              <p className="text-[11px] text-gray-400">
+                Recorded {new Date(disclosure.timestamp).toLocaleString()}. The machine translation may be wrong; the original is kept word for word.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 animate-pulse">Recording the disclosure...</p>
+          )}
+
+          <div>
+            <h3 className="text-sm font-bold text-gray-900 mb-2">What to do now</h3>
+            <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-700">
+              {settings.escalationSteps.map((step, index) => <li key={index}>{step}</li>)}
+            </ol>
+            <p className="mt-3 text-sm text-gray-700">
+              <span className="font-medium">Safeguarding lead:</span>{' '}
+              {settings.leadName || settings.leadContact
+                ? [settings.leadName, settings.leadContact].filter(Boolean).join(' • ')
+                : 'Not set. Add your DSL under Settings > Safeguarding.'}
+            </p>
+          </div>
+
+          {actions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-gray-900 mb-2">Recorded so far</h3>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {actions.map(entry => (
+                  <li key={entry.id}>
+                    <span className="text-gray-400">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>{' '}
+                    {entry.action}{entry.note ? `: ${entry.note}` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2 border-t border-gray-100 pt-4">
+            <h3 className="text-sm font-bold text-gray-900">Record what you did</h3>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-red-500 outline-none"
+            >
+              {INCIDENT_ACTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 outline-none"
+              placeholder="Details, e.g. who you spoke to and when"
+            />
+            <p className="text-[11px] text-gray-400">Entries cannot be edited or deleted later.</p>
+            <button
+              onClick={handleRecord}
+              disabled={!disclosure || isSaving || (action === 'Other' && !note.trim())}
+              className="w-full bg-red-600 text-white font-bold py-3 rounded-xl hover:bg-red-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Recording...' : 'Record Action'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafeguardingAlert;
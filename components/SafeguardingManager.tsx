@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { IncidentEntry, SafeguardingSettings } from '../types';
+import { DEFAULT_SAFEGUARDING_SETTINGS } from '../services/safeguarding';
+import { verifyIncidentLog, buildIncidentReportHtml, incidentLogFileName, parseAnchor, matchesAnchor } from '../services/incidentLog';
+import { downloadTextFile } from '../services/transcriptExport';
+
+interface SafeguardingManagerProps {
+  settings: SafeguardingSettings;
+  incidentLog: IncidentEntry[]; // The live log; it is never edited here
+  onChange: (settings: SafeguardingSettings) => void;
+}
+
+const SafeguardingManager: React.FC<SafeguardingManagerProps> = ({ settings, incidentLog, onChange }) => {
+  // Kept as typed so blank lines survive while a step is being added
+  const [stepsText, setStepsText] = useState(settings.escalationSteps.join('\n'));
+  // undefined while checking, null when the chain is intact
+  const [brokenAt, setBrokenAt] = useState<number | null | undefined>(undefined);
+  // Anchor copied from an earlier report, kept outside the app by the safeguarding lead
+  const [anchorText, setAnchorText] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setBrokenAt(undefined);
+    verifyIncidentLog(incidentLog)
+      .then(result => { if (!cancelled) setBrokenAt(result); })
+      .catch(e => console.error("Failed to verify incident log", e));
+    return () => { cancelled = true; };
+  }, [incidentLog]);
+
+  const handleStepsChange = (text: string) => {
+    setStepsText(text);
+    onChange({ ...settings, escalationSteps: text.split('\n').map(step => step.trim()).filter(Boolean) });
+  };
+
+  const handleResetSteps = () => handleStepsChange(DEFAULT_SAFEGUARDING_SETTINGS.escalationSteps.join('\n'));
+
+  const handleExportReport = () => {
+    if (brokenAt === undefined) return;
+    downloadTextFile(buildIncidentReportHtml(incidentLog, settings, brokenAt), incidentLogFileName('html'), 'text/html');
+  };
+
+  // The raw chain, so the hashes can be checked again outside the app
+  const handleExportJson = () => {
+    downloadTextFile(JSON.stringify(incidentLog, null, 2), incidentLogFileName('json'), 'application/json');
+  };
+
+  const anchor = parseAnchor(anchorText);
+  const anchorResult = !anchorText.trim()
+    ? null
+    : !anchor
+      ? { ok: false, text: 'That is not a log anchor. Copy it exactly as printed in the report.' }
+      : brokenAt === undefined
+        ? null
+        : brokenAt !== null
+          ? { ok: false, text: 'The log itself has been altered, see the check above.' }
+          : matchesAnchor(incidentLog, anchor)
+            ? { ok: true, text: `All ${anchor.count} entries of that report are still here, unchanged.` }
+            : { ok: false, text: 'Entries from that report have been changed or removed since it was exported.' };
+
+  const disclosures = incidentLog.filter(entry => entry.type === 'disclosure').reverse();
+  const actionCount = (incidentId: string) =>
+    incidentLog.filter(entry => entry.incidentId === incidentId && entry.type === 'action').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Designated Safeguarding Lead</label>
+          <input
+            type="text"
+            value={settings.leadName}
+            onChange={(e) => onChange({ ...settings, leadName: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder="e.g. Mr. Okafor"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">How to reach them</label>
+          <input
+            type="text"
+            value={settings.leadContact}
+            onChange={(e) => onChange({ ...settings, leadContact: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder="e.g. Room 12, ext. 204"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <label className="block text-sm font-medium text-gray-700">Escalation steps (one per line)</label>
+          <button type="button" onClick={handleResetSteps} className="text-xs text-indigo-600 hover:underline">Reset to defaults</button>
+        </div>
+        <textarea
+          value={stepsText}
+          onChange={(e) => handleStepsChange(e.target.value)}
+          rows={6}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Shown as soon as a student message may be a disclosure. Use your school's own procedure.
+        </p>
+      </div>
+
+      <div className="border border-gray-200 rounded-xl p-4 space-y-3">
+        <div className="flex justify-between items-center gap-3">
+          <h4 className="font-bold text-gray-900">Incident Log</h4>
+          <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${
+            brokenAt === undefined ? 'bg-gray-100 text-gray-500' : brokenAt === null ? 'bg-emerald-50 text-emerald-700' : 'bg-red-100 text-red-700'
+          }`}>
+            {brokenAt === undefined ? 'Checking...' : brokenAt === null ? 'Intact' : `Altered at entry ${brokenAt + 1}`}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500">
+          Every disclosure and every action you record is kept here with the original wording and cannot be edited or deleted. Each entry is chained to the one before, so later changes to the log show up in the check above.
+        </p>
+
+        {disclosures.length === 0 ? (
+          <p className="text-sm text-gray-400">No incidents recorded.</p>
+        ) : (
+          <ul className="max-h-56 overflow-y-auto custom-scrollbar divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {disclosures.map(entry => (
+              <li key={entry.id} className="px-3 py-2 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium text-gray-900">{entry.studentName}</span>
+                  <span className="text-[11px] text-gray-400">{new Date(entry.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                </div>
+                <p className="text-xs text-gray-600 truncate">{entry.reason}</p>
+                <p className="text-[11px] text-gray-400">
+                  {actionCount(entry.incidentId) === 0 ? 'No action recorded' : `${actionCount(entry.incidentId)} ${actionCount(entry.incidentId) === 1 ? 'action' : 'actions'} recorded`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleExportReport}
+            disabled={brokenAt === undefined}
+            className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+          >
+            Export Report for DSL
+          </button>
+          <button
+            onClick={handleExportJson}
+            className="flex-1 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50"
+          >
+            Export Raw Log (JSON)
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Check against an earlier report</label>
+          <input
+            type="text"
+            value={anchorText}
+            onChange={(e) => setAnchorText(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder="Log anchor from the report, e.g. 12:3f9a..."
+          />
+          {anchorResult && (
+            <p className={`text-xs mt-1 ${anchorResult.ok ? 'text-emerald-700' : 'text-red-700'}`}>{anchorResult.text}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafeguardingManager;
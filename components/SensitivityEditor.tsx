@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { SensitivityKind, SensitivityTag } from '../types';
+import { SENSITIVITY_KINDS, createSensitivityTag } from '../services/sensitivities';
+
+interface SensitivityEditorProps {
+  tags: SensitivityTag[];
+  onChange: (tags: SensitivityTag[]) => void;
+}
+
+const KIND_OPTIONS = Object.entries(SENSITIVITY_KINDS) as [SensitivityKind, typeof SENSITIVITY_KINDS[SensitivityKind]][];
+
+const SensitivityEditor: React.FC<SensitivityEditorProps> = ({ tags, onChange }) => {
+  const [newKind, setNewKind] = useState<SensitivityKind>('literal-processing');
+
+  // A tag the teacher has edited is theirs from then on, so AI analysis will not replace it
+  const updateTag = (id: string, changes: Partial<Pick<SensitivityTag, 'kind' | 'notes'>>) => {
+    onChange(tags.map(tag => tag.id === id ? { ...tag, ...changes, source: 'teacher' } : tag));
+  };
+
+  const removeTag = (id: string) => {
+    onChange(tags.filter(tag => tag.id !== id));
+  };
+
+  const addTag = () => {
+    onChange([...tags, createSensitivityTag(newKind, '', 'teacher')]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length === 0 && (
+        <div className="text-center py-3 text-gray-400 bg-gray-50 rounded-xl border border-dashed border-gray-200 text-sm">
+          No needs recorded yet.
+        </div>
+      )}
+
+      {tags.map(tag => (
+        <div key={tag.id} className={`flex items-center gap-2 p-2 rounded-lg border ${tag.source === 'ai' ? 'border-purple-200 bg-purple-50/50' : 'border-gray-200'}`}>
+          <select
+            value={tag.kind}
+            onChange={(e) => updateTag(tag.id, { kind: e.target.value as SensitivityKind })}
+            className="w-40 shrink-0 px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            {KIND_OPTIONS.map(([kind, info]) => (
+              <option key={kind} value={kind}>{info.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={tag.notes}
+            onChange={(e) => updateTag(tag.id, { notes: e.target.value })}
+            className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            placeholder={SENSITIVITY_KINDS[tag.kind].placeholder}
+          />
+          <span
+            className={`shrink-0 text-[10px] px-1.5 py-0.5 rounded-full font-medium ${tag.source === 'ai' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-600'}`}
+            title={tag.source === 'ai' ? 'Suggested by chat analysis. Edit it to keep it as your own.' : 'Added by you'}
+          >
+            {tag.source === 'ai' ? 'AI' : 'Teacher'}
+          </span>
+          <button
+            onClick={() => removeTag(tag.id)}
+            className="shrink-0 text-gray-400 hover:text-red-600 text-lg leading-none px-1"
+            title="Remove"
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as SensitivityKind)}
+          className="flex-1 px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {KIND_OPTIONS.map(([kind, info]) => (
+            <option key={kind} value={kind}>{info.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={addTag}
+          className="text-sm bg-indigo-100 text-indigo-700 px-3 py-1.5 rounded-lg font-medium hover:bg-indigo-200"
+        >
+          + Add Need
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityEditor;
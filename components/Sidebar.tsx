@@ -1,23 +1,46 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { StudentProfile } from '../types';
+import { COMMUNICATION_MODES } from '../services/communicationMode';
 
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  students: StudentProfile[];
+  students: StudentProfile[]; // Already filtered to the active class
+  title?: string; // Name of the active class
   currentStudentId: string;
   onSelectStudent: (id: string) => void;
   onAddStudent: () => void;
+  onBroadcast: (studentIds: string[]) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   onClose,
   students,
+  title,
   currentStudentId,
   onSelectStudent,
-  onAddStudent
+  onAddStudent,
+  onBroadcast
 }) => {
+  // Broadcast selection mode: tapping a student toggles them instead of opening their chat
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleBroadcast = () => {
+    onBroadcast(students.filter(s => selectedIds.includes(s.id)).map(s => s.id));
+    stopSelecting();
+  };
+
   return (
     <>
       {/* Backdrop */}
@@ -31,41 +54,72 @@ const Sidebar: React.FC<SidebarProps> = ({
         <div className="flex flex-col h-full">
           {/* Header */}
           <div className="p-5 border-b border-gray-100 flex justify-between items-center bg-indigo-600 text-white">
-            <h2 className="font-bold text-lg">Classroom</h2>
-            <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition-colors">
+            <h2 className="font-bold text-lg truncate">{title || 'Classroom'}</h2>
+            <button onClick={() => { stopSelecting(); onClose(); }} className="p-1 hover:bg-white/20 rounded-full transition-colors">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
           </div>
 
+          {/* Selection Bar */}
+          {students.length > 1 && (
+            <div className="px-4 pt-3 flex justify-between items-center text-xs">
+              {isSelecting ? (
+                <>
+                  <button
+                    onClick={() => setSelectedIds(selectedIds.length === students.length ? [] : students.map(s => s.id))}
+                    className="text-indigo-600 font-medium hover:underline"
+                  >
+                    {selectedIds.length === students.length ? 'Select none' : 'Select all'}
+                  </button>
+                  <button onClick={stopSelecting} className="text-gray-500 hover:text-gray-700">Cancel</button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setIsSelecting(true)}
+                  className="flex items-center gap-1 text-indigo-600 font-medium hover:underline"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5"><path d="M13.92 3.845a19.361 19.361 0 01-6.3 1.98C6.765 5.942 5.89 6 5 6a4 4 0 00-.504 7.969 15.974 15.974 0 001.271 3.341c.397.77 1.342 1 2.05.59l.867-.5c.726-.42.94-1.321.588-2.021-.166-.33-.315-.666-.448-1.004 1.8.358 3.511.964 5.096 1.78A17.964 17.964 0 0015 10c0-2.161-.381-4.234-1.08-6.155zM15.243 3.097A19.456 19.456 0 0116.5 10c0 2.431-.445 4.758-1.257 6.904l-.03.077a.75.75 0 001.401.537 20.902 20.902 0 001.312-5.745 1.999 1.999 0 000-3.545 20.902 20.902 0 00-1.312-5.745.75.75 0 00-1.4.537l.029.077z" /></svg>
+                  Broadcast to several students
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Student List */}
           <div className="flex-1 overflow-y-auto p-4 space-y-2">
             {students.length === 0 ? (
               <div className="text-center text-gray-400 py-10">
-                <p>No students yet.</p>
-                <p className="text-sm">Add one to start chatting!</p>
+                <p>{title ? 'No students in this class.' : 'No students yet.'}</p>
+                <p className="text-sm">{title ? 'Add them from Settings > Classes.' : 'Add one to start chatting!'}</p>
               </div>
             ) : (
               students.map(student => (
                 <button
                   key={student.id}
-                  onClick={() => onSelectStudent(student.id)}
+                  onClick={() => isSelecting ? toggleSelected(student.id) : onSelectStudent(student.id)}
                   className={`w-full text-left p-3 rounded-xl transition-all border ${
-                    currentStudentId === student.id 
+                    (isSelecting ? selectedIds.includes(student.id) : currentStudentId === student.id)
                       ? 'bg-indigo-50 border-indigo-200 ring-1 ring-indigo-500 shadow-sm' 
                       : 'bg-white border-gray-100 hover:border-indigo-200 hover:bg-gray-50'
                   }`}
                 >
                   <div className="flex justify-between items-center mb-1">
-                    <span className={`font-bold ${currentStudentId === student.id ? 'text-indigo-900' : 'text-gray-700'}`}>
+                    <span className={`flex items-center gap-2 font-bold ${currentStudentId === student.id ? 'text-indigo-900' : 'text-gray-700'}`}>
+                      {isSelecting && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(student.id)}
+                          readOnly
+                          className="rounded text-indigo-600 pointer-events-none"
+                        />
+                      )}
                       {student.name}
                     </span>
-                    {student.language.toLowerCase().includes('english') ? (
-                       <span className="text-[10px] bg-teal-100 text-teal-800 px-1.5 py-0.5 rounded-full font-medium">ND</span>
-                    ) : (
-                       <span className="text-[10px] bg-orange-100 text-orange-800 px-1.5 py-0.5 rounded-full font-medium">ESL</span>
-                    )}
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium ${COMMUNICATION_MODES[student.mode].badgeClassName}`}>
+                      {COMMUNICATION_MODES[student.mode].badge}
+                    </span>
                   </div>
                   <div className="text-xs text-gray-500 truncate">
                     {student.language} • {student.age} yrs
@@ -77,15 +131,25 @@ const Sidebar: React.FC<SidebarProps> = ({
 
           {/* Footer Actions */}
           <div className="p-4 border-t border-gray-100 bg-gray-50">
-            <button
-              onClick={onAddStudent}
-              className="w-full flex items-center justify-center gap-2 bg-white border-2 border-dashed border-gray-300 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 p-3 rounded-xl transition-all font-medium"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-              </svg>
-              New Student Profile
-            </button>
+            {isSelecting ? (
+              <button
+                onClick={handleBroadcast}
+                disabled={selectedIds.length === 0}
+                className="w-full bg-indigo-600 text-white p-3 rounded-xl font-bold hover:bg-indigo-700 disabled:opacity-50 transition-all"
+              >
+                Broadcast to {selectedIds.length} Student{selectedIds.length === 1 ? '' : 's'}
+              </button>
+            ) : (
+              <button
+                onClick={onAddStudent}
+                className="w-full flex items-center justify-center gap-2 bg-white border-2 border-dashed border-gray-300 text-gray-600 hover:border-indigo-400 hover:text-indigo-600 p-3 rounded-xl transition-all font-medium"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                </svg>
+                New Student Profile
+              </button>
+            )}
           </div>
         </div>
       </div>
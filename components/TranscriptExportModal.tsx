@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppData, ChatMessage } from '../types';
+import { loadChatHistory } from '../services/storage';
+import { mergeChats } from '../services/backupMerge';
+import { getVisibleStudents, getTeacherNameFor } from '../services/classes';
+import {
+  TranscriptRange, TranscriptSource, filterMessagesByDate, buildTranscriptCsv, buildTranscriptHtml,
+  transcriptFileName, downloadTextFile, printTranscript
+} from '../services/transcriptExport';
+
+interface TranscriptExportModalProps {
+  data: AppData;
+  initialStudentId: string;
+  onClose: () => void;
+}
+
+const TranscriptExportModal: React.FC<TranscriptExportModalProps> = ({ data, initialStudentId, onClose }) => {
+  // Scoped to the active class, like the sidebar
+  const students = getVisibleStudents(data);
+  const [studentId, setStudentId] = useState(
+    students.some(s => s.id === initialStudentId) ? initialStudentId : students[0]?.id || ''
+  );
+  const [range, setRange] = useState<TranscriptRange>({ from: '', to: '' });
+  const [history, setHistory] = useState<ChatMessage[] | null>(null);
+
+  const student = students.find(s => s.id === studentId);
+
+  // Histories that were never opened this session have to be read from the database, and the
+  // chat in memory may hold only the messages added since
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    if (!studentId) return;
+
+    loadChatHistory(studentId)
+      .then(chat => { if (!cancelled) setHistory(mergeChats(data.chats[studentId] || [], chat)); })
+      .catch(e => {
+        console.error("Failed to load chat history", e);
+        if (!cancelled) setHistory(data.chats[studentId] || []);
+      });
+    return () => { cancelled = true; };
+  }, [studentId, data.chats]);
+
+  const matching = useMemo(() => history ? filterMessagesByDate(history, range) : [], [history, range]);
+  const isRangeInvalid = !!range.from && !!range.to && range.from > range.to;
+
+  const source = (): TranscriptSource | null => {
+    if (!student || !history) return null;
+    return { student, teacherName: getTeacherNameFor(data, student.id), messages: history, range };
+  };
+
+  const handlePrint = () => {
+    const transcript = source();
+    if (!transcript) return;
+    if (!printTranscript(buildTranscriptHtml(transcript))) {
+      alert("The print window was blocked. Please allow pop-ups for this site, or download the HTML file instead.");
+    }
+  };
+
+  const handleDownloadHtml = () => {
+    const transcript = source();
+    if (!transcript) return;
+    downloadTextFile(buildTranscriptHtml(transcript), transcriptFileName(transcript, 'html'), 'text/html');
+  };
+
+  const handleDownloadCsv = () => {
+    const transcript = source();
+    if (!transcript) return;
+    downloadTextFile(buildTranscriptCsv(transcript), transcriptFileName(transcript, 'csv'), 'text/csv');
+  };
+
+  const canExport = !!student && !!history && matching.length > 0 && !isRangeInvalid;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up" onClick={e => e.stopPropagation()}>
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white">Export Transcript</h2>
+          <button onClick={onClose} className="text-white/80 hover:text-white text-2xl leading-none">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            A bilingual, time-stamped record of the conversation with cultural notes, strategies and reasoning. Use it for parent meetings or EAL reviews.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Student</label>
+            <select
+              value={studentId}
+              onChange={(e) => setStudentId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+            >
+              {students.map(s => (
+                <option key={s.id} value={s.id}>{s.name} ({s.language})</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={range.from}
+                onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={range.to}
+                onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <p className={`text-xs ${isRangeInvalid ? 'text-red-600' : 'text-gray-500'}`}>
+            {isRangeInvalid
+              ? "The start date is after the end date."
+              : !history
+                ? "Loading conversation..."
+                : `${matching.length} of ${history.length} messages ${range.from || range.to ? 'in this period' : 'will be included'}.`}
+          </p>
+
+          <div className="flex flex-col gap-2 pt-2">
+            <button
+              onClick={handlePrint}
+              disabled={!canExport}
+              className="w-full bg-indigo-600 text-white font-bold py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Print / Save as PDF
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleDownloadHtml}
+                disabled={!canExport}
+                className="flex-1 bg-gray-100 text-gray-700 font-medium py-2 rounded-xl hover:bg-gray-200 disabled:opacity-50"
+              >
+                Download HTML
+              </button>
+              <button
+                onClick={handleDownloadCsv}
+                disabled={!canExport}
+                className="flex-1 bg-gray-100 text-gray-700 font-medium py-2 rounded-xl hover:bg-gray-200 disabled:opacity-50"
+              >
+                Download CSV
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptExportModal;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { StudentVoiceSettings, VoiceType } from '../types';
+import { GEMINI_VOICES, loadAiSettings } from '../services/aiSettings';
+import { generateSpeech } from '../services/geminiService';
+import { playGeminiAudio, playLocalAudio, DEFAULT_VOICE_SETTINGS } from '../services/audioUtils';
+import { findLanguage, loadVoices } from '../services/languages';
+
+interface VoiceSettingsEditorProps {
+  value?: StudentVoiceSettings;
+  studentName: string;
+  language: string;
+  preferredVoice: VoiceType; // Which engine the preview uses, as in the chat
+  onChange: (voice: StudentVoiceSettings) => void;
+}
+
+const SLIDERS: { key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'rate', label: 'Speed', min: 0.5, max: 1.5, step: 0.05 },
+  { key: 'pitch', label: 'Pitch', min: 0.5, max: 1.5, step: 0.05 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05 }
+];
+
+const VoiceSettingsEditor: React.FC<VoiceSettingsEditorProps> = ({ value, studentName, language, preferredVoice, onChange }) => {
+  const settings = value || DEFAULT_VOICE_SETTINGS;
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then(list => { if (!cancelled) setVoices(list); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Voices for the student's language first; the rest stay available for unusual setups
+  const base = (findLanguage(language)?.code || language).toLowerCase().split('-')[0];
+  const matchingVoices = voices.filter(v => v.lang.toLowerCase().startsWith(base));
+  const otherVoices = voices.filter(v => !v.lang.toLowerCase().startsWith(base));
+
+  const update = (changes: Partial<StudentVoiceSettings>) => onChange({ ...settings, ...changes });
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    const sample = `Hello ${studentName || 'there'}! This is how I will sound.`;
+    try {
+      if (preferredVoice === VoiceType.AI) {
+        const audioBase64 = await generateSpeech(sample, settings);
+        if (audioBase64) {
+          await playGeminiAudio(audioBase64, settings.volume);
+          return;
+        }
+      }
+      await playLocalAudio(sample, language || 'English', settings);
+    } catch (e) {
+      console.error("Voice preview failed", e);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl border border-gray-200">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">AI Voice</label>
+          <select
+            value={settings.geminiVoice || ''}
+            onChange={(e) => update({ geminiVoice: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">Default ({loadAiSettings().geminiVoice})</option>
+            {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Device Voice</label>
+          <select
+            value={settings.localVoiceURI || ''}
+            onChange={(e) => update({ localVoiceURI: e.target.value })}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">Automatic</option>
+            {matchingVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+            {otherVoices.length > 0 && (
+              <optgroup label="Other languages">
+                {otherVoices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+              </optgroup>
+            )}
+          </select>
+        </div>
+      </div>
+
+      {SLIDERS.map(slider => (
+        <div key={slider.key} className="flex items-center gap-3">
+          <label className="w-14 text-xs font-medium text-gray-600">{slider.label}</label>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={settings[slider.key]}
+            onChange={(e) => update({ [slider.key]: parseFloat(e.target.value) })}
+            className="flex-1 accent-indigo-600"
+          />
+          <span className="w-10 text-right text-xs text-gray-500 tabular-nums">
+            {slider.key === 'volume' ? `${Math.round(settings.volume * 100)}%` : `${settings[slider.key].toFixed(2)}x`}
+          </span>
+        </div>
+      ))}
+
+      <div className="flex justify-between items-center">
+        <p className="text-[11px] text-gray-400">Pitch only applies to device voices.</p>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPreviewing}
+          className="text-xs bg-indigo-100 text-indigo-700 px-3 py-1.5 rounded-full font-medium hover:bg-indigo-200 disabled:opacity-50"
+        >
+          {isPreviewing ? 'Playing...' : 'Preview Voice'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsEditor;
@@ -0,0 +1,94 @@
+import { AIErrorKind } from '../types';
+import { isObject } from './guards';
+
+// Typed failures for every AI call. Providers throw AIError where they can tell what went
+// wrong; anything else (SDK errors, fetch failures) is classified by toAIError.
+
+const FRIENDLY_MESSAGES: Record<AIErrorKind, string> = {
+  'no-key': "The AI service rejected the request. Check the API key in Settings > AI Service.",
+  'quota': "The AI service is busy or the usage quota has been reached. Try again in a minute.",
+  'network': "Could not reach the AI service. Check the internet connection.",
+  'safety': "The AI service blocked this message for safety reasons. Try rephrasing it.",
+  'bad-response': "The AI service sent back a reply that could not be read.",
+  'unknown': "Something went wrong with the AI service."
+};
+
+// Worth trying again automatically: the same request may succeed a moment later
+const RETRYABLE_KINDS: AIErrorKind[] = ['quota', 'network'];
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 800;
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  detail?: string; // Technical reason from the service, for the console and connection tests
+
+  constructor(kind: AIErrorKind, detail?: string) {
+    super(FRIENDLY_MESSAGES[kind]);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const describeAIErrorKind = (kind: AIErrorKind): string => FRIENDLY_MESSAGES[kind];
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Maps an HTTP status from any AI backend to an error kind
+export const errorKindForStatus = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return 'no-key';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = isObject(error) && typeof error.status === 'number' ? error.status : undefined;
+
+  let kind: AIErrorKind = status !== undefined ? errorKindForStatus(status) : 'unknown';
+  if (kind === 'unknown') {
+    if (/api[ _]?key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|unauthori[sz]ed/i.test(message)) kind = 'no-key';
+    else if (/RESOURCE_EXHAUSTED|quota|rate.?limit|too many requests/i.test(message)) kind = 'quota';
+    else if (/SAFETY|blocked/i.test(message)) kind = 'safety';
+    else if (error instanceof SyntaxError) kind = 'bad-response';
+    else if (error instanceof TypeError || /network|fetch|UNAVAILABLE|timed? ?out/i.test(message) || !navigator.onLine) kind = 'network';
+  }
+  return new AIError(kind, message);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = window.setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    window.clearTimeout(timer);
+    reject(new DOMException('The request was cancelled.', 'AbortError'));
+  }, { once: true });
+});
+
+// Runs an AI call, retrying temporary failures with exponential backoff.
+// Rejects with an AIError, or with the original AbortError when `signal` was aborted.
+export const withRetries = async <T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) throw e;
+
+      const error = toAIError(e);
+      if (!error.retryable || attempt >= MAX_ATTEMPTS) {
+        console.error(`AI request failed (${error.kind})`, error.detail || e);
+        throw error;
+      }
+      // 0.8s, 1.6s, ... plus jitter so parallel requests (e.g. a broadcast) do not retry in lockstep
+      await wait(BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 300, signal);
+    }
+  }
+};
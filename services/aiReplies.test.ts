@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { AIError } from './aiErrors';
+import { parseReply, toBackTranslation, toCommunicationOptions, toGuideBookResponse, toTranslationResponse } from './aiReplies';
+
+const expectBadResponse = (run: () => unknown) => {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(AIError);
+    expect((e as AIError).kind).toBe('bad-response');
+    return;
+  }
+  throw new Error('Expected an AIError');
+};
+
+describe('parseReply', () => {
+  it('fails on text that is not JSON', () => {
+    expect(parseReply('{"guide": "x"}')).toEqual({ guide: 'x' });
+    expectBadResponse(() => parseReply('Sure! Here is the guide:'));
+    expectBadResponse(() => parseReply(undefined));
+  });
+});
+
+describe('toGuideBookResponse', () => {
+  it('requires a guide text', () => {
+    expect(toGuideBookResponse({ guide: 'Use short sentences.' })).toEqual({ guide: 'Use short sentences.', proposedChanges: [] });
+    expectBadResponse(() => toGuideBookResponse({ proposedChanges: [] }));
+    expectBadResponse(() => toGuideBookResponse({ guide: ['not', 'text'] }));
+    expectBadResponse(() => toGuideBookResponse(null));
+  });
+});
+
+describe('toCommunicationOptions', () => {
+  const option = { id: 'o1', strategy: 'Direct', englishText: 'Sit down, please.', translatedText: 'Siéntate, por favor.', reasoning: 'Clear' };
+
+  it('keeps complete options and drops incomplete ones', () => {
+    const options = toCommunicationOptions({ options: [option, { strategy: 'Gentle', englishText: 'Sit?' }] });
+    expect(options).toEqual([option]);
+  });
+
+  it('fills in a missing id and reasoning', () => {
+    const [filled] = toCommunicationOptions({ options: [{ ...option, id: undefined, reasoning: undefined }] });
+    expect(filled.id).toEqual(expect.any(String));
+    expect(filled.id).not.toBe('');
+    expect(filled.reasoning).toBe('');
+  });
+
+  it('requires an options list with at least one usable option', () => {
+    expect(toCommunicationOptions({ options: [] })).toEqual([]);
+    expectBadResponse(() => toCommunicationOptions({ choices: [option] }));
+    expectBadResponse(() => toCommunicationOptions({ options: [{ strategy: 'Direct' }] }));
+  });
+});
+
+describe('toTranslationResponse', () => {
+  it('requires a translation and drops optional fields of the wrong type', () => {
+    expect(toTranslationResponse({ translation: 'Hola', culturalNote: 42, highStakesTopics: ['medical', 7] })).toEqual({
+      translation: 'Hola', culturalNote: undefined, highStakesTopics: ['medical'], possibleDisclosure: undefined
+    });
+    expectBadResponse(() => toTranslationResponse({ translation: '  ' }));
+  });
+});
+
+describe('toBackTranslation', () => {
+  it('requires a back-translation text', () => {
+    expect(toBackTranslation({ backTranslation: 'Sit down.' })).toBe('Sit down.');
+    expectBadResponse(() => toBackTranslation({}));
+  });
+});
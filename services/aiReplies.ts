@@ -0,0 +1,95 @@
+import { CommunicationOption, FidelityAssessment, GuideBookResponse, TranslationResponse } from '../types';
+import { AIError } from './aiErrors';
+import { isObject } from './guards';
+import { generateId } from './ids';
+
+// Shape checks for JSON replies, shared by the providers. A response schema or a prompt only
+// asks the model for a shape; a reply missing a field must fail as 'bad-response' here rather
+// than reach the profile or the chat as undefined.
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+export const parseReply = (jsonText: string | undefined): unknown => {
+  try {
+    return JSON.parse(jsonText || "");
+  } catch (e) {
+    throw new AIError('bad-response', `Unparseable JSON: ${(jsonText || "(empty)").slice(0, 200)}`);
+  }
+};
+
+export const toTranslationResponse = (reply: unknown): TranslationResponse => {
+  const translation = isObject(reply) ? nonEmptyString(reply.translation) : undefined;
+  if (!isObject(reply) || !translation) {
+    throw new AIError('bad-response', "Reply has no translation");
+  }
+  return {
+    translation,
+    culturalNote: nonEmptyString(reply.culturalNote),
+    // Checked against the known topics by mergeHighStakes
+    highStakesTopics: Array.isArray(reply.highStakesTopics)
+      ? reply.highStakesTopics.filter((topic): topic is string => typeof topic === 'string')
+      : undefined,
+    possibleDisclosure: nonEmptyString(reply.possibleDisclosure)
+  };
+};
+
+// Suggested tag changes are checked one by one in toProposedChanges
+export const toGuideBookResponse = (reply: unknown): GuideBookResponse => {
+  const guide = isObject(reply) ? nonEmptyString(reply.guide) : undefined;
+  if (!isObject(reply) || !guide) {
+    throw new AIError('bad-response', "Reply has no guide");
+  }
+  return {
+    guide,
+    proposedChanges: Array.isArray(reply.proposedChanges) ? reply.proposedChanges : []
+  };
+};
+
+const toCommunicationOption = (option: unknown): CommunicationOption | null => {
+  if (!isObject(option)) return null;
+  const englishText = nonEmptyString(option.englishText);
+  const translatedText = nonEmptyString(option.translatedText);
+  if (typeof option.strategy !== 'string' || !englishText || !translatedText) return null;
+  return {
+    id: nonEmptyString(option.id) || generateId(),
+    strategy: option.strategy,
+    englishText,
+    translatedText,
+    reasoning: typeof option.reasoning === 'string' ? option.reasoning : ''
+  };
+};
+
+// Incomplete options are left out; a reply with options but none usable is an error
+export const toCommunicationOptions = (reply: unknown): CommunicationOption[] => {
+  if (!isObject(reply) || !Array.isArray(reply.options)) {
+    throw new AIError('bad-response', "Reply has no options");
+  }
+  const options = reply.options.map(toCommunicationOption).filter((option): option is CommunicationOption => option !== null);
+  if (reply.options.length > 0 && options.length === 0) {
+    throw new AIError('bad-response', "Reply has no usable options");
+  }
+  return options;
+};
+
+export const toBackTranslation = (reply: unknown): string => {
+  const backTranslation = isObject(reply) ? nonEmptyString(reply.backTranslation) : undefined;
+  if (!backTranslation) {
+    throw new AIError('bad-response', "Reply has no back-translation");
+  }
+  return backTranslation;
+};
+
+// The score itself is checked by toFidelityCheck, which fails the check without one
+export const toFidelityAssessment = (reply: unknown): FidelityAssessment => {
+  if (!isObject(reply)) {
+    throw new AIError('bad-response', "Reply has no fidelity assessment");
+  }
+  return {
+    driftScore: reply.driftScore as number,
+    divergences: Array.isArray(reply.divergences) ? reply.divergences : []
+  };
+};
+
+export const toLanguage = (reply: unknown): string | null =>
+  isObject(reply) && typeof reply.language === 'string' ? reply.language : null;
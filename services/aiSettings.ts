@@ -0,0 +1,56 @@
+import { AISettings, AIProviderType } from '../types';
+
+const STORAGE_KEY_AI_SETTINGS = 'teacher_aid_ai_settings';
+
+// Prebuilt voices offered by the Gemini TTS models
+export const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: AIProviderType.GEMINI,
+  geminiApiKey: '',
+  geminiModels: {
+    translation: 'gemini-2.5-flash',
+    options: 'gemini-2.5-flash',
+    guideBook: 'gemini-2.5-flash',
+    speech: 'gemini-2.5-flash-preview-tts'
+  },
+  geminiVoice: 'Kore',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiApiKey: '',
+  openAiModels: {
+    translation: 'llama3.1',
+    options: 'llama3.1',
+    guideBook: 'llama3.1',
+    speech: 'tts-1'
+  },
+  openAiVoice: 'alloy'
+};
+
+export const loadAiSettings = (): AISettings => {
+  const saved = localStorage.getItem(STORAGE_KEY_AI_SETTINGS);
+  if (!saved) return DEFAULT_AI_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+
+    // Settings saved before per-task models had a single "openAiModel"
+    const legacyModel = parsed.openAiModel;
+    const openAiModels = legacyModel
+      ? { ...DEFAULT_AI_SETTINGS.openAiModels, translation: legacyModel, options: legacyModel, guideBook: legacyModel }
+      : DEFAULT_AI_SETTINGS.openAiModels;
+
+    // Merge with defaults so settings saved by older versions pick up new fields
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...parsed,
+      geminiModels: { ...DEFAULT_AI_SETTINGS.geminiModels, ...parsed.geminiModels },
+      openAiModels: { ...openAiModels, ...parsed.openAiModels }
+    };
+  } catch (e) {
+    console.error("Failed to parse AI settings", e);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AISettings) => {
+  localStorage.setItem(STORAGE_KEY_AI_SETTINGS, JSON.stringify(settings));
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildWavBlob } from './audioExport';
+
+const SAMPLE_RATE = 24000;
+
+const base64Of = (bytes: number[]) => btoa(String.fromCharCode(...bytes));
+
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+const readWav = async (blob: Blob) => {
+  const buffer = await blob.arrayBuffer();
+  return { view: new DataView(buffer), data: new Uint8Array(buffer, 44) };
+};
+
+describe('buildWavBlob', () => {
+  it('writes a 24 kHz 16-bit mono PCM header', async () => {
+    const blob = buildWavBlob([base64Of([1, 2, 3, 4])]);
+    const { view, data } = await readWav(blob);
+
+    expect(blob.type).toBe('audio/wav');
+    expect(readAscii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 4);
+    expect(readAscii(view, 8, 4)).toBe('WAVE');
+    expect(readAscii(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint32(28, true)).toBe(SAMPLE_RATE * 2);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readAscii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(4);
+    expect(Array.from(data)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('joins clips with silence between them but not after the last', async () => {
+    const blob = buildWavBlob([base64Of([1, 2]), base64Of([3, 4])], 0.5);
+    const { view, data } = await readWav(blob);
+    const pauseBytes = SAMPLE_RATE * 0.5 * 2;
+
+    expect(view.getUint32(40, true)).toBe(4 + pauseBytes);
+    expect(blob.size).toBe(44 + 4 + pauseBytes);
+    expect(Array.from(data.subarray(0, 2))).toEqual([1, 2]);
+    expect(data.subarray(2, 2 + pauseBytes).every(byte => byte === 0)).toBe(true);
+    expect(Array.from(data.subarray(2 + pauseBytes))).toEqual([3, 4]);
+  });
+
+  it('drops a trailing odd byte so later samples stay aligned', async () => {
+    const { view, data } = await readWav(buildWavBlob([base64Of([1, 2, 3]), base64Of([4, 5])]));
+
+    expect(view.getUint32(40, true)).toBe(4);
+    expect(Array.from(data)).toEqual([1, 2, 4, 5]);
+  });
+});
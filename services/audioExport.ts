@@ -0,0 +1,62 @@
+import { StudentProfile } from '../types';
+import { decodeBase64 } from './audioUtils';
+
+// Generated speech is raw PCM (24 kHz, 16-bit, mono), which media players cannot open.
+// The export wraps it in a WAV container; several clips can be joined with silence between
+// them, e.g. a week of instructions for a student to replay at home.
+
+const SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+const HEADER_BYTES = 44;
+
+export const PAUSE_OPTIONS = [0.5, 1, 2, 3];
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+const writeWavHeader = (view: DataView, dataBytes: number) => {
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, HEADER_BYTES - 8 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * BYTES_PER_SAMPLE, true); // Byte rate
+  view.setUint16(32, BYTES_PER_SAMPLE, true); // Block align
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true); // Bits per sample
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+};
+
+// Joins base64 PCM clips into one WAV file, with `pauseSeconds` of silence between clips
+export const buildWavBlob = (clips: string[], pauseSeconds: number = 0): Blob => {
+  // A clip cut mid-sample would shift every later sample by a byte, so drop the odd byte
+  const pcm = clips.map(clip => {
+    const bytes = decodeBase64(clip);
+    return bytes.length % BYTES_PER_SAMPLE === 0 ? bytes : bytes.subarray(0, bytes.length - 1);
+  });
+  const pauseBytes = Math.round(pauseSeconds * SAMPLE_RATE) * BYTES_PER_SAMPLE;
+  const dataBytes = pcm.reduce((sum, bytes) => sum + bytes.length, 0) + pauseBytes * Math.max(0, pcm.length - 1);
+
+  // New buffers are zero-filled, so the pauses are already silent
+  const buffer = new ArrayBuffer(HEADER_BYTES + dataBytes);
+  writeWavHeader(new DataView(buffer), dataBytes);
+  const output = new Uint8Array(buffer);
+  let offset = HEADER_BYTES;
+  pcm.forEach((bytes, index) => {
+    if (index > 0) offset += pauseBytes;
+    output.set(bytes, offset);
+    offset += bytes.length;
+  });
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const audioFileName = (student: StudentProfile, clipCount: number): string => {
+  const safeName = student.name.replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'student';
+  const date = new Date().toISOString().slice(0, 10);
+  return `audio_${safeName}_${date}${clipCount > 1 ? `_${clipCount}_messages` : ''}.wav`;
+};
@@ -1,4 +1,5 @@
-import { VoiceType } from '../types';
+import { VoiceType, StudentVoiceSettings } from '../types';
+import { findLanguage, findVoice, loadVoices } from './languages';
 
 // Audio Context Singleton to prevent multiple contexts
 let audioContext: AudioContext | null = null;
@@ -13,7 +14,7 @@ const getAudioContext = () => {
 };
 
 // Base64 decoding helper
-function decodeBase64(base64: string): Uint8Array {
+export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
@@ -44,7 +45,7 @@ async function decodeAudioData(
   return buffer;
 }
 
-export const playGeminiAudio = async (base64Audio: string): Promise<void> => {
+export const playGeminiAudio = async (base64Audio: string, volume: number = 1): Promise<void> => {
   try {
     const ctx = getAudioContext();
     
@@ -58,7 +59,10 @@ export const playGeminiAudio = async (base64Audio: string): Promise<void> => {
 
     const source = ctx.createBufferSource();
     source.buffer = audioBuffer;
-    source.connect(ctx.destination);
+    const gain = ctx.createGain();
+    gain.gain.value = volume;
+    source.connect(gain);
+    gain.connect(ctx.destination);
     source.start(0);
 
     return new Promise((resolve) => {
@@ -70,44 +74,31 @@ export const playGeminiAudio = async (base64Audio: string): Promise<void> => {
   }
 };
 
-export const playLocalAudio = (text: string, language: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (!('speechSynthesis' in window)) {
-      console.error("Local TTS not supported");
-      reject("TTS not supported");
-      return;
-    }
+export const playLocalAudio = async (text: string, language: string, settings?: StudentVoiceSettings): Promise<void> => {
+  if (!('speechSynthesis' in window)) {
+    console.error("Local TTS not supported");
+    throw "TTS not supported";
+  }
+
+  // Registry names map to a BCP-47 tag; anything else is passed through in case it already is one
+  const lang = findLanguage(language)?.code || language;
+  const voices = await loadVoices();
+  // The student's chosen voice, if this device has it
+  const voice = voices.find(v => settings?.localVoiceURI && v.voiceURI === settings.localVoiceURI) || findVoice(lang, voices);
 
+  return new Promise((resolve) => {
     // Cancel any ongoing speech
     window.speechSynthesis.cancel();
 
     const utterance = new SpeechSynthesisUtterance(text);
-    
-    // Attempt to map simple language name to BCP 47 tag (heuristic)
-    // In a real app, we'd have a robust mapping or a dropdown of actual voices.
-    // Here we try to guess or fallback to English if unknown, but we want the CHILD'S language.
-    // We rely on the browser's ability to find a voice for the requested lang code if provided,
-    // or we assume the `language` passed is a locale code (e.g., 'es-MX', 'fr-FR').
-    // If the user inputs "Spanish", we might need to map it.
-    
-    // Simple mapping for demo purposes.
-    const langMap: Record<string, string> = {
-      'spanish': 'es-ES',
-      'french': 'fr-FR',
-      'german': 'de-DE',
-      'italian': 'it-IT',
-      'japanese': 'ja-JP',
-      'chinese': 'zh-CN',
-      'mandarin': 'zh-CN',
-      'korean': 'ko-KR',
-      'portuguese': 'pt-BR',
-      'russian': 'ru-RU',
-      'arabic': 'ar-SA',
-      'hindi': 'hi-IN'
-    };
-
-    const normalizedLang = language.toLowerCase().trim();
-    utterance.lang = langMap[normalizedLang] || language; // Fallback to raw string if not in map
+    utterance.lang = lang;
+    // Without an explicit voice some browsers read every language with the default (English) voice
+    if (voice) utterance.voice = voice;
+    if (settings) {
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      utterance.volume = settings.volume;
+    }
 
     utterance.onend = () => resolve();
     utterance.onerror = (e) => {
@@ -118,3 +109,11 @@ export const playLocalAudio = (text: string, language: string): Promise<void> =>
     window.speechSynthesis.speak(utterance);
   });
 };
+
+export const DEFAULT_VOICE_SETTINGS: StudentVoiceSettings = {
+  geminiVoice: '',
+  localVoiceURI: '',
+  rate: 1,
+  pitch: 1,
+  volume: 1
+};
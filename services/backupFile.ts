@@ -0,0 +1,85 @@
+import { AppData } from '../types';
+import { PBKDF2_ITERATIONS, generateSalt, deriveKey, encryptJson, decryptJson, bytesToBase64, base64ToBytes } from './crypto';
+import { isObject } from './guards';
+
+// Password-protected backup container.
+// The AppData JSON is sealed with AES-GCM under a PBKDF2-derived key. The header (format and
+// KDF parameters) is bound to the ciphertext as additional data, so any change to the file,
+// or a wrong password, makes decryption fail instead of producing corrupted data.
+
+const ENCRYPTED_BACKUP_FORMAT = 'teacher-aid-encrypted-backup';
+const ENCRYPTED_BACKUP_VERSION = 1;
+
+interface EncryptedBackupHeader {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+}
+
+export interface EncryptedBackup extends EncryptedBackupHeader {
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+export class BackupPasswordError extends Error {
+  constructor() {
+    super("Wrong password, or the backup file has been damaged or modified.");
+    this.name = 'BackupPasswordError';
+  }
+}
+
+const headerBytes = (header: EncryptedBackupHeader): Uint8Array => {
+  // Fixed field order so the bytes are identical when the header is rebuilt on import
+  const { format, version, kdf } = header;
+  return new TextEncoder().encode(JSON.stringify({
+    format,
+    version,
+    kdf: { name: kdf.name, hash: kdf.hash, iterations: kdf.iterations, salt: kdf.salt }
+  }));
+};
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackup => {
+  return isObject(raw) && raw.format === ENCRYPTED_BACKUP_FORMAT;
+};
+
+export const createEncryptedBackup = async (data: AppData, password: string): Promise<EncryptedBackup> => {
+  const salt = generateSalt();
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+
+  const header: EncryptedBackupHeader = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) }
+  };
+  const { iv, ciphertext } = await encryptJson(key, data, headerBytes(header));
+
+  return {
+    ...header,
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext))
+  };
+};
+
+// Returns the raw backup contents; run them through upgradeAppData before use
+export const decryptBackup = async (backup: EncryptedBackup, password: string): Promise<unknown> => {
+  if (backup.version > ENCRYPTED_BACKUP_VERSION) {
+    throw new Error("This backup was created by a newer version of Teacher's Aid. Please update the app.");
+  }
+
+  let key: CryptoKey;
+  let ciphertext: Uint8Array;
+  let iv: Uint8Array;
+  try {
+    key = await deriveKey(password, base64ToBytes(backup.kdf.salt), backup.kdf.iterations);
+    ciphertext = base64ToBytes(backup.ciphertext);
+    iv = base64ToBytes(backup.cipher.iv);
+  } catch (e) {
+    throw new BackupPasswordError();
+  }
+
+  try {
+    return await decryptJson<unknown>(key, { iv, ciphertext: ciphertext.buffer as ArrayBuffer }, headerBytes(backup));
+  } catch (e) {
+    throw new BackupPasswordError();
+  }
+};
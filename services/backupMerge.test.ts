@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, ChatMessage, StudentProfile, VoiceType } from '../types';
+import { DEFAULT_SAFEGUARDING_SETTINGS } from './safeguarding';
+import { SCHEMA_VERSION } from './schema';
+import { applyImport, diffBackup, mergeChats } from './backupMerge';
+
+const message = (id: string, timestamp: number, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  originalText: `Message ${id}`,
+  translatedText: `Translated ${id}`,
+  timestamp,
+  isLoadingAudio: false,
+  sender: 'teacher',
+  ...overrides
+});
+
+const student = (id: string, overrides: Partial<StudentProfile> = {}): StudentProfile => ({
+  id,
+  name: `Student ${id}`,
+  language: 'Spanish',
+  age: 8,
+  mode: 'translate',
+  sensitivities: [],
+  ...overrides
+});
+
+const appData = (overrides: Partial<AppData> = {}): AppData => ({
+  schemaVersion: SCHEMA_VERSION,
+  teacherName: 'Ms Rivera',
+  preferredVoice: VoiceType.AI,
+  students: [],
+  currentStudentId: '',
+  chats: {},
+  classes: [],
+  activeClassId: '',
+  outbox: [],
+  checkFidelity: false,
+  safeguarding: DEFAULT_SAFEGUARDING_SETTINGS,
+  incidentLog: [],
+  ...overrides
+});
+
+describe('mergeChats', () => {
+  it('adds only messages that are not already present, in timestamp order', () => {
+    const current = [message('a', 10), message('c', 30)];
+    const incoming = [message('a', 10, { translatedText: 'edited elsewhere' }), message('b', 20)];
+
+    expect(mergeChats(current, incoming)).toEqual([message('a', 10), message('b', 20), message('c', 30)]);
+  });
+
+  it('keeps messages that share an id but not a timestamp', () => {
+    const merged = mergeChats([message('1', 10)], [message('1', 20)]);
+    expect(merged.map(m => m.timestamp)).toEqual([10, 20]);
+  });
+});
+
+describe('diffBackup', () => {
+  it('classifies students as new, identical or in conflict', () => {
+    const current = appData({
+      students: [student('same'), student('edited')],
+      chats: { same: [message('m1', 1)], edited: [] }
+    });
+    const incoming = appData({
+      students: [student('same'), student('edited', { age: 9 }), student('fresh')],
+      chats: { same: [message('m1', 1)], fresh: [message('m2', 2)] }
+    });
+
+    const diffs = diffBackup(current, incoming);
+
+    expect(diffs.map(d => [d.studentId, d.status])).toEqual([['same', 'identical'], ['edited', 'conflict'], ['fresh', 'new']]);
+    expect(diffs[1].profileChanged).toBe(true);
+    expect(diffs[2]).toMatchObject({ incomingMessageCount: 1, newMessageCount: 1, currentMessageCount: 0 });
+  });
+});
+
+describe('applyImport', () => {
+  const current = appData({
+    students: [student('s1', { name: 'Ana' }), student('s2')],
+    currentStudentId: 's1',
+    chats: { s1: [message('a', 10)], s2: [message('x', 5)] },
+    classes: [{ id: 'c1', name: 'Period 1', studentIds: ['s1'] }]
+  });
+  const incoming = appData({
+    students: [student('s1', { name: 'Ana B.' }), student('s2', { age: 12 }), student('s3')],
+    chats: { s1: [message('a', 10), message('b', 20)], s2: [message('y', 6)], s3: [message('p', 1, { status: 'pending' })] },
+    classes: [
+      { id: 'c1', name: 'Period 1', studentIds: ['s1', 's3', 'gone'] },
+      { id: 'c2', name: 'Period 2', studentIds: ['s3', 'gone'] }
+    ],
+    outbox: [{ studentId: 's3', messageId: 'p' }, { studentId: 's1', messageId: 'b' }]
+  });
+
+  it('merges chats by default and keeps the current profile', () => {
+    const { data, summary } = applyImport(current, incoming, {});
+
+    expect(data.students.map(s => s.name)).toEqual(['Ana', 'Student s2', 'Student s3']);
+    expect(data.chats.s1.map(m => m.id)).toEqual(['a', 'b']);
+    expect(data.chats.s3.map(m => m.id)).toEqual(['p']);
+    expect(summary).toMatchObject({ studentsAdded: 1, studentsMerged: 2, messagesAdded: 3, classesAdded: 1 });
+  });
+
+  it('replaces or skips students as decided', () => {
+    const { data, summary } = applyImport(current, incoming, { s1: 'replace', s2: 'skip', s3: 'skip' });
+
+    expect(data.students.map(s => s.name)).toEqual(['Ana B.', 'Student s2']);
+    expect(data.chats.s1.map(m => m.id)).toEqual(['a', 'b']);
+    expect(data.chats.s2.map(m => m.id)).toEqual(['x']);
+    expect(data.chats.s3).toBeUndefined();
+    expect(summary.results[0]).toMatchObject({ decision: 'replace', messagesAdded: 2, messagesRemoved: 1 });
+    expect(summary.studentsUnchanged).toBe(2);
+  });
+
+  it('combines class rosters with only the students that exist after the import', () => {
+    const { data } = applyImport(current, incoming, {});
+
+    expect(data.classes).toEqual([
+      { id: 'c1', name: 'Period 1', studentIds: ['s1', 's3'] },
+      { id: 'c2', name: 'Period 2', studentIds: ['s3'] }
+    ]);
+  });
+
+  it('queues only outbox entries whose message is still pending', () => {
+    expect(applyImport(current, incoming, {}).data.outbox).toEqual([{ studentId: 's3', messageId: 'p' }]);
+    expect(applyImport(current, incoming, { s3: 'skip' }).data.outbox).toEqual([]);
+  });
+});
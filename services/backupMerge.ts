@@ -0,0 +1,163 @@
+import { AppData, ChatMessage, StudentProfile } from '../types';
+
+// Compares an incoming backup with the current data, student by student (matched by id),
+// and applies the teacher's per-student decisions.
+
+export type ImportDecision = 'keep' | 'replace' | 'merge' | 'add' | 'skip';
+
+export interface StudentImportDiff {
+  studentId: string;
+  name: string;
+  status: 'new' | 'conflict' | 'identical';
+  current?: StudentProfile;
+  incoming: StudentProfile;
+  currentMessageCount: number;
+  incomingMessageCount: number;
+  newMessageCount: number; // Incoming messages not already in the current history
+  profileChanged: boolean;
+}
+
+export interface StudentImportResult {
+  studentId: string;
+  name: string;
+  decision: ImportDecision;
+  messagesAdded: number;
+  messagesRemoved: number;
+}
+
+export interface ImportSummary {
+  results: StudentImportResult[];
+  studentsAdded: number;
+  studentsReplaced: number;
+  studentsMerged: number;
+  studentsUnchanged: number;
+  messagesAdded: number;
+  classesAdded: number;
+}
+
+// Message ids are creation timestamps and may repeat across devices or demo loads,
+// so a message is only a duplicate when both its id and timestamp match
+const messageKey = (message: ChatMessage) => `${message.id}:${message.timestamp}`;
+
+const isSameProfile = (a: StudentProfile, b: StudentProfile) => JSON.stringify(a) === JSON.stringify(b);
+
+export const mergeChats = (current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] => {
+  const seen = new Set(current.map(messageKey));
+  const additions = incoming.filter(message => !seen.has(messageKey(message)));
+  return [...current, ...additions].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const diffBackup = (current: AppData, incoming: AppData): StudentImportDiff[] => {
+  return incoming.students.map(student => {
+    const existing = current.students.find(s => s.id === student.id);
+    const currentChat = current.chats[student.id] || [];
+    const incomingChat = incoming.chats[student.id] || [];
+    const currentKeys = new Set(currentChat.map(messageKey));
+    const newMessageCount = incomingChat.filter(m => !currentKeys.has(messageKey(m))).length;
+    const profileChanged = !!existing && !isSameProfile(existing, student);
+
+    let status: StudentImportDiff['status'] = 'new';
+    if (existing) {
+      status = newMessageCount === 0 && !profileChanged ? 'identical' : 'conflict';
+    }
+
+    return {
+      studentId: student.id,
+      name: student.name,
+      status,
+      current: existing,
+      incoming: student,
+      currentMessageCount: currentChat.length,
+      incomingMessageCount: incomingChat.length,
+      newMessageCount,
+      profileChanged
+    };
+  });
+};
+
+export const defaultDecision = (diff: StudentImportDiff): ImportDecision => {
+  if (diff.status === 'new') return 'add';
+  if (diff.status === 'identical') return 'keep';
+  return 'merge';
+};
+
+// `current` must contain every student's full chat history
+export const applyImport = (
+  current: AppData,
+  incoming: AppData,
+  decisions: Record<string, ImportDecision>
+): { data: AppData; summary: ImportSummary } => {
+  const students = [...current.students];
+  const chats = { ...current.chats };
+  const results: StudentImportResult[] = [];
+
+  diffBackup(current, incoming).forEach(diff => {
+    const decision = decisions[diff.studentId] || defaultDecision(diff);
+    const currentChat = chats[diff.studentId] || [];
+    const incomingChat = incoming.chats[diff.studentId] || [];
+    let messagesAdded = 0;
+    let messagesRemoved = 0;
+
+    if (decision === 'add') {
+      students.push(diff.incoming);
+      chats[diff.studentId] = [...incomingChat];
+      messagesAdded = incomingChat.length;
+    } else if (decision === 'replace') {
+      const index = students.findIndex(s => s.id === diff.studentId);
+      students[index] = diff.incoming;
+      chats[diff.studentId] = [...incomingChat];
+      messagesAdded = incomingChat.length;
+      messagesRemoved = currentChat.length;
+    } else if (decision === 'merge') {
+      // The current profile wins; only the conversation history is combined
+      const merged = mergeChats(currentChat, incomingChat);
+      chats[diff.studentId] = merged;
+      messagesAdded = merged.length - currentChat.length;
+    }
+
+    results.push({ studentId: diff.studentId, name: diff.name, decision, messagesAdded, messagesRemoved });
+  });
+
+  // Classes are matched by id. Rosters are combined, keeping only students that exist after the import.
+  const studentIds = new Set(students.map(s => s.id));
+  const classes = current.classes.map(classGroup => {
+    const match = incoming.classes.find(c => c.id === classGroup.id);
+    if (!match) return classGroup;
+    const additions = match.studentIds.filter(id => studentIds.has(id) && !classGroup.studentIds.includes(id));
+    return additions.length > 0 ? { ...classGroup, studentIds: [...classGroup.studentIds, ...additions] } : classGroup;
+  });
+  const newClasses = incoming.classes
+    .filter(c => !current.classes.some(existing => existing.id === c.id))
+    .map(c => ({ ...c, studentIds: c.studentIds.filter(id => studentIds.has(id)) }));
+  classes.push(...newClasses);
+
+  // Messages still waiting in the backup's outbox are queued here too, after our own
+  const outbox = [
+    ...current.outbox,
+    ...incoming.outbox.filter(entry =>
+      !current.outbox.some(e => e.studentId === entry.studentId && e.messageId === entry.messageId) &&
+      chats[entry.studentId]?.some(m => m.id === entry.messageId && m.status === 'pending'))
+  ];
+
+  const count = (decision: ImportDecision) => results.filter(r => r.decision === decision).length;
+
+  return {
+    data: {
+      ...current,
+      students,
+      chats,
+      classes,
+      outbox,
+      currentStudentId: current.currentStudentId || students[0]?.id || ''
+    },
+    summary: {
+      results,
+      studentsAdded: count('add'),
+      studentsReplaced: count('replace'),
+      studentsMerged: count('merge'),
+      studentsUnchanged: count('keep') + count('skip'),
+      messagesAdded: results.reduce((sum, r) => sum + r.messagesAdded, 0),
+      classesAdded: newClasses.length
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import { AppData, ClassGroup, StudentProfile } from '../types';
+
+// Helpers for classes/periods. A student may be on several rosters; class defaults
+// (subject, glossary, teacher name) come from the active class when the student is on
+// its roster, otherwise from the first class that lists them.
+
+export const getActiveClass = (data: AppData): ClassGroup | undefined =>
+  data.classes.find(c => c.id === data.activeClassId);
+
+// Students shown in the sidebar: the active class's roster, or everyone
+export const getVisibleStudents = (data: AppData): StudentProfile[] => {
+  const activeClass = getActiveClass(data);
+  if (!activeClass) return data.students;
+  return data.students.filter(s => activeClass.studentIds.includes(s.id));
+};
+
+export const getClassForStudent = (data: AppData, studentId: string): ClassGroup | undefined => {
+  const activeClass = getActiveClass(data);
+  if (activeClass?.studentIds.includes(studentId)) return activeClass;
+  return data.classes.find(c => c.studentIds.includes(studentId));
+};
+
+export const getTeacherNameFor = (data: AppData, studentId: string): string =>
+  getClassForStudent(data, studentId)?.teacherNameOverride?.trim() || data.teacherName;
+
+export const removeStudentFromClasses = (classes: ClassGroup[], studentId: string): ClassGroup[] =>
+  classes.map(c => c.studentIds.includes(studentId) ? { ...c, studentIds: c.studentIds.filter(id => id !== studentId) } : c);
+
+// Restricts a full data set to one class, e.g. for a per-class backup
+export const scopeToClass = (data: AppData, classId: string): AppData => {
+  const classGroup = data.classes.find(c => c.id === classId);
+  if (!classGroup) return data;
+
+  const roster = new Set(classGroup.studentIds);
+  const students = data.students.filter(s => roster.has(s.id));
+  return {
+    ...data,
+    students,
+    chats: Object.fromEntries(Object.entries(data.chats).filter(([studentId]) => roster.has(studentId))),
+    classes: [classGroup],
+    activeClassId: classGroup.id,
+    outbox: data.outbox.filter(entry => roster.has(entry.studentId)),
+    // Safeguarding records leave the app only through the incident log export to the DSL
+    incidentLog: [],
+    currentStudentId: roster.has(data.currentStudentId) ? data.currentStudentId : students[0]?.id || ''
+  };
+};
@@ -0,0 +1,34 @@
+import { CommunicationMode, StudentProfile } from '../types';
+
+// How messages for a student are handled. Set explicitly per student, so a Spanish-speaking
+// autistic student can have both translation and neurodivergent adaptation.
+
+interface CommunicationModeInfo {
+  label: string;
+  description: string;
+  badge: string; // Short label for the sidebar
+  badgeClassName: string;
+}
+
+export const COMMUNICATION_MODES: Record<CommunicationMode, CommunicationModeInfo> = {
+  'translate': {
+    label: 'Translate',
+    description: 'Translate between English and the student\'s language (ESL).',
+    badge: 'ESL',
+    badgeClassName: 'bg-orange-100 text-orange-800'
+  },
+  'adapt': {
+    label: 'Adapt',
+    description: 'Keep English, but adapt it to the student\'s processing style (neurodivergent support).',
+    badge: 'ND',
+    badgeClassName: 'bg-teal-100 text-teal-800'
+  },
+  'translate-and-adapt': {
+    label: 'Translate & Adapt',
+    description: 'Translate into the student\'s language and adapt it to their processing style.',
+    badge: 'ESL+ND',
+    badgeClassName: 'bg-purple-100 text-purple-800'
+  }
+};
+
+export const needsTranslation = (student: StudentProfile): boolean => student.mode !== 'adapt';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { canTellSpeakersByScript, identifySpeaker, speakerForLanguage } from './conversation';
+
+describe('canTellSpeakersByScript', () => {
+  it('is true only when the student language has another script than English', () => {
+    expect(canTellSpeakersByScript('Arabic')).toBe(true);
+    expect(canTellSpeakersByScript('Spanish')).toBe(false);
+    expect(canTellSpeakersByScript('Klingon')).toBe(false);
+  });
+});
+
+describe('identifySpeaker', () => {
+  it('switches to the student when an English turn comes back in their script', () => {
+    expect(identifySpeaker('أين الحمام؟', 0.9, 'teacher', 'Arabic')).toBe('student');
+  });
+
+  it('switches to the teacher when a student turn comes back in Latin script', () => {
+    expect(identifySpeaker('Open your books please', 0.9, 'student', 'Arabic')).toBe('teacher');
+  });
+
+  it('keeps the expected speaker when the script matches', () => {
+    expect(identifySpeaker('أين الحمام؟', 0.9, 'student', 'Arabic')).toBe('student');
+    expect(identifySpeaker('Open your books', 0.9, 'teacher', 'Arabic')).toBe('teacher');
+  });
+
+  it('does not trust a low-confidence transcript', () => {
+    expect(identifySpeaker('Open your books', 0.2, 'teacher', 'Spanish')).toBeNull();
+    expect(identifySpeaker('Open your books', 0.2, 'student', 'Arabic')).toBe('teacher');
+  });
+
+  it('treats a confidence of 0 as unknown rather than low', () => {
+    expect(identifySpeaker('Abre tu libro', 0, 'student', 'Spanish')).toBe('student');
+  });
+});
+
+describe('speakerForLanguage', () => {
+  it('maps the language the AI service named to a speaker', () => {
+    expect(speakerForLanguage('English', 'Spanish')).toBe('teacher');
+    expect(speakerForLanguage(' spanish ', 'Spanish')).toBe('student');
+  });
+
+  it('is inconclusive when the answer names neither language or is missing', () => {
+    expect(speakerForLanguage('Portuguese', 'Spanish')).toBeNull();
+    expect(speakerForLanguage(null, 'Spanish')).toBeNull();
+    expect(speakerForLanguage('', 'Spanish')).toBeNull();
+  });
+
+  it('is inconclusive when both speak English', () => {
+    expect(speakerForLanguage('English', 'English')).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { SenderType } from '../types';
+import { findLanguage, scriptShare } from './languages';
+
+// Hands-free conversation mode. Browser speech recognition listens in one language at a
+// time, so the app listens for whoever is expected to speak next (the other person after
+// each turn) and checks every utterance against that expectation before sending it: by
+// script where the two languages differ in script, otherwise by asking the AI service which
+// language the transcript is in. Only when that stays unclear does the teacher tap the speaker.
+
+// Below this the recogniser was probably listening in the wrong language. Some browsers
+// report 0 when they give no confidence at all, which is treated as unknown.
+const MIN_CONFIDENCE = 0.4;
+
+export const TEACHER_LANGUAGE = 'English';
+
+export const otherSpeaker = (speaker: SenderType): SenderType => speaker === 'teacher' ? 'student' : 'teacher';
+
+export const speakerLanguage = (speaker: SenderType, studentLanguage: string): string =>
+  speaker === 'teacher' ? TEACHER_LANGUAGE : studentLanguage;
+
+// The recogniser does not report which language it heard. The script of a transcript shows it
+// for e.g. English and Arabic, but not for English and Spanish.
+export const canTellSpeakersByScript = (studentLanguage: string): boolean => {
+  const teacher = findLanguage(TEACHER_LANGUAGE);
+  const student = findLanguage(studentLanguage);
+  return !!teacher && !!student && teacher.script !== student.script;
+};
+
+// Who said a final transcript, or null if it cannot be trusted. When the two languages use
+// different scripts, a transcript in the other person's script is theirs (recognisers write
+// foreign words they catch in the original script). Otherwise a low confidence means the
+// recogniser was fitting the other person's words to the wrong language.
+export const identifySpeaker = (
+  transcript: string,
+  confidence: number,
+  listeningFor: SenderType,
+  studentLanguage: string
+): SenderType | null => {
+  const student = findLanguage(studentLanguage);
+
+  if (student && canTellSpeakersByScript(studentLanguage)) {
+    const studentShare = scriptShare(transcript, student.script);
+    const byScript = studentShare === null ? null : studentShare >= 0.5 ? 'student' : 'teacher';
+    if (byScript && byScript !== listeningFor) return byScript;
+  }
+
+  if (confidence > 0 && confidence < MIN_CONFIDENCE) return null;
+  return listeningFor;
+};
+
+// Same-script languages: the speaker whose language the AI service named, or null when it was
+// unsure, named neither language, or the two speak the same language anyway
+export const speakerForLanguage = (language: string | null, studentLanguage: string): SenderType | null => {
+  const named = language?.trim().toLowerCase();
+  const teacher = TEACHER_LANGUAGE.toLowerCase();
+  const student = studentLanguage.trim().toLowerCase();
+  if (!named || teacher === student) return null;
+  if (named === teacher) return 'teacher';
+  if (named === student) return 'student';
+  return null;
+};
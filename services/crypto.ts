@@ -0,0 +1,84 @@
+import { isObject } from './guards';
+
+// WebCrypto helpers for passphrase-based encryption.
+// Keys are derived with PBKDF2 and data is sealed with AES-GCM, whose authentication
+// tag also detects tampering or a wrong passphrase on decryption.
+
+export const PBKDF2_ITERATIONS = 600000;
+
+export interface EncryptedPayload {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(16));
+
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false, // Never extractable, so the raw key cannot leak out of memory
+    ['encrypt', 'decrypt']
+  );
+};
+
+// `additionalData` is authenticated but not encrypted, e.g. a file header that must not be altered
+export const encryptJson = async (key: CryptoKey, value: unknown, additionalData?: Uint8Array): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv, ciphertext };
+};
+
+// Rejects if the key is wrong or the payload (or its additional data) was modified
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload, additionalData?: Uint8Array): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    additionalData ? { name: 'AES-GCM', iv: payload.iv, additionalData } : { name: 'AES-GCM', iv: payload.iv },
+    key,
+    payload.ciphertext
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload => {
+  return isObject(value) && value.iv instanceof Uint8Array && value.ciphertext instanceof ArrayBuffer;
+};
+
+// --- Base64, for storing binary values in JSON files ---
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
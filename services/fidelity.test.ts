@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, FidelityAssessment, StudentProfile } from '../types';
+import { AIError } from './aiErrors';
+import { canCheckFidelity, describeDrift, shouldCheckFidelity, toFidelityCheck } from './fidelity';
+
+const student = (mode: StudentProfile['mode']): StudentProfile => ({
+  id: 's1', name: 'Ana', language: 'Spanish', age: 9, mode, sensitivities: []
+});
+
+const teacherMessage = (overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: 'm1',
+  originalText: 'Please finish the worksheet before lunch.',
+  translatedText: 'Por favor, termina la hoja antes del almuerzo.',
+  timestamp: 1,
+  isLoadingAudio: false,
+  sender: 'teacher',
+  ...overrides
+});
+
+const expectBadResponse = (assessment: unknown) => {
+  try {
+    toFidelityCheck('Please finish the sheet before lunch.', assessment as FidelityAssessment);
+  } catch (e) {
+    expect(e).toBeInstanceOf(AIError);
+    expect((e as AIError).kind).toBe('bad-response');
+    return;
+  }
+  throw new Error('Expected an AIError');
+};
+
+describe('toFidelityCheck', () => {
+  it('keeps the score in range and drops unusable divergences', () => {
+    const check = toFidelityCheck('Finish the sheet.', { driftScore: 140.4, divergences: ['"before lunch" was lost', '', 3] as string[] });
+
+    expect(check.driftScore).toBe(100);
+    expect(check.divergences).toEqual(['"before lunch" was lost']);
+    expect(toFidelityCheck('x', { driftScore: -5, divergences: [] }).driftScore).toBe(0);
+    expect(toFidelityCheck('x', { driftScore: 12.6, divergences: [] }).driftScore).toBe(13);
+  });
+
+  it('treats a missing divergence list as empty', () => {
+    expect(toFidelityCheck('x', { driftScore: 10 } as FidelityAssessment).divergences).toEqual([]);
+  });
+
+  it('fails instead of reporting a missing or unusable score as no drift', () => {
+    expectBadResponse({ divergences: [] });
+    expectBadResponse({ driftScore: '20', divergences: [] });
+    expectBadResponse({ driftScore: NaN, divergences: [] });
+    expectBadResponse({ driftScore: null, divergences: [] });
+  });
+});
+
+describe('describeDrift', () => {
+  it('labels the score by threshold', () => {
+    expect(describeDrift(0).label).toBe('Meaning kept');
+    expect(describeDrift(15).label).toBe('Minor drift');
+    expect(describeDrift(35).label).toBe('Meaning changed');
+  });
+});
+
+describe('shouldCheckFidelity', () => {
+  it('checks translated teacher messages when the setting is on or the teacher asked', () => {
+    expect(shouldCheckFidelity(teacherMessage(), student('translate'), true)).toBe(true);
+    expect(shouldCheckFidelity(teacherMessage(), student('translate'), false)).toBe(false);
+    expect(shouldCheckFidelity(teacherMessage({ checkMeaning: true }), student('translate'), false)).toBe(true);
+  });
+
+  it('skips adapted, failed and student messages', () => {
+    expect(canCheckFidelity(teacherMessage(), student('adapt'))).toBe(false);
+    expect(canCheckFidelity(teacherMessage({ status: 'failed', translatedText: '' }), student('translate'))).toBe(false);
+    expect(canCheckFidelity(teacherMessage({ sender: 'student' }), student('translate'))).toBe(false);
+  });
+});
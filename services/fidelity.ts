@@ -0,0 +1,54 @@
+import { ChatMessage, FidelityAssessment, FidelityCheck, StudentProfile } from '../types';
+import { needsTranslation } from './communicationMode';
+import { AIError } from './aiErrors';
+
+// Back-translation fidelity check. A teacher message is translated back into English by a
+// separate request that never sees the original, then compared with what the teacher wrote.
+// The drift score tells the teacher whether the student reads what was meant, e.g. whether
+// a softened instruction still contains the actual requirement.
+
+// At or above this the meaning is treated as changed and the message is highlighted
+export const DRIFT_WARNING_THRESHOLD = 35;
+const DRIFT_MINOR_THRESHOLD = 15;
+
+interface DriftLevel {
+  label: string;
+  className: string;
+}
+
+export const describeDrift = (driftScore: number): DriftLevel => {
+  if (driftScore >= DRIFT_WARNING_THRESHOLD) {
+    return { label: 'Meaning changed', className: 'bg-red-100 text-red-800 border-red-200' };
+  }
+  if (driftScore >= DRIFT_MINOR_THRESHOLD) {
+    return { label: 'Minor drift', className: 'bg-amber-100 text-amber-800 border-amber-200' };
+  }
+  return { label: 'Meaning kept', className: 'bg-emerald-100 text-emerald-800 border-emerald-200' };
+};
+
+export const isDivergent = (fidelity: FidelityCheck): boolean => fidelity.driftScore >= DRIFT_WARNING_THRESHOLD;
+
+// Only translated teacher messages can be back-translated; adapted English is already readable
+export const canCheckFidelity = (message: ChatMessage, student: StudentProfile): boolean =>
+  message.sender === 'teacher' && !message.status && !!message.translatedText && needsTranslation(student);
+
+// Checked automatically when the setting is on or the teacher asked for it on this message
+export const shouldCheckFidelity = (message: ChatMessage, student: StudentProfile, checkAll: boolean): boolean =>
+  canCheckFidelity(message, student) && (checkAll || !!message.checkMeaning);
+
+// Model replies are not trusted to stay in range or to always include the list. A reply
+// without a usable score fails the check: treating it as 0 would report the meaning as kept.
+export const toFidelityCheck = (backTranslation: string, assessment: FidelityAssessment): FidelityCheck => {
+  const score: unknown = assessment.driftScore;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    throw new AIError('bad-response', `Fidelity assessment has no usable drift score: ${JSON.stringify(score)}`);
+  }
+  return {
+    backTranslation,
+    driftScore: Math.min(100, Math.max(0, Math.round(score))),
+    divergences: Array.isArray(assessment.divergences)
+      ? assessment.divergences.filter((d): d is string => typeof d === 'string' && d.trim() !== '')
+      : [],
+    checkedAt: Date.now()
+  };
+};
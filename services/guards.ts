@@ -0,0 +1,3 @@
+// Narrowing for values whose shape is not known: parsed JSON, imported files, thrown errors
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
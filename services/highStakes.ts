@@ -0,0 +1,64 @@
+import { ChatMessage, HighStakesFlag, HighStakesTopic } from '../types';
+
+// High-stakes content detection. The app is not a substitute for a certified interpreter;
+// conversations about health, the law, safeguarding, exclusion or injuries are flagged so
+// the teacher has to acknowledge that before the message reaches the student.
+//
+// Two passes: an instant keyword check on English text before a message is sent, and the
+// AI's classification, which comes back with every translation and also covers the
+// student's language.
+
+interface HighStakesTopicInfo {
+  label: string;
+  keywords: RegExp; // Matched against English text
+}
+
+export const HIGH_STAKES_TOPICS: Record<HighStakesTopic, HighStakesTopicInfo> = {
+  'medical': {
+    label: 'Medical',
+    keywords: /\b(medicines?|medication|doctor|nurse|hospital|ambulance|allerg(y|ies|ic)|asthma|inhaler|epipen|diabet(es|ic)|insulin|seizures?|epilep(sy|tic)|fainted|unconscious|diagnos(is|ed)|prescription|dose|overdose|vomit(ing|ed)?|fever|symptoms?)\b/i
+  },
+  'legal': {
+    label: 'Legal',
+    keywords: /\b(police|court|lawyer|solicitor|legal|custody|immigration|visa|asylum|deport(ed|ation)?|arrest(ed)?|crime|criminal|prosecut(e|ion)|social services|consent form)\b/i
+  },
+  'safeguarding': {
+    label: 'Safeguarding',
+    keywords: /\b(abus(e|ed|ing)|neglect(ed)?|hit(s|ting)? me|hurts? me|touch(ed|es|ing)? me|unsafe at home|scared to go home|run away|self[- ]harm|suicid(e|al)|kill (my|him|her)self|safeguarding|grooming|trafficking|forced marriage|FGM)\b/i
+  },
+  'exclusion': {
+    label: 'Exclusion',
+    keywords: /\b(exclu(de|ded|sion)|expel(led)?|expulsion|suspen(d|ded|sion)|sent home|isolation room|permanent(ly)? removed|managed move)\b/i
+  },
+  'injury': {
+    label: 'Injury',
+    keywords: /\b(injur(y|ies|ed)|bleeding|broken (arm|leg|bone|wrist|nose)|fracture|concussion|head injury|bruis(e|es|ed)|sprain(ed)?|first aid|hit (his|her|their) head)\b/i
+  }
+};
+
+const TOPICS = Object.keys(HIGH_STAKES_TOPICS) as HighStakesTopic[];
+
+export const isHighStakesTopic = (value: unknown): value is HighStakesTopic =>
+  typeof value === 'string' && (TOPICS as string[]).includes(value);
+
+export const detectHighStakesTopics = (text: string): HighStakesTopic[] =>
+  TOPICS.filter(topic => HIGH_STAKES_TOPICS[topic].keywords.test(text));
+
+export const describeHighStakesTopics = (topics: HighStakesTopic[]): string =>
+  topics.map(topic => HIGH_STAKES_TOPICS[topic].label).join(', ');
+
+// Adds newly detected topics to a message's flag. An acknowledgement only covers the topics
+// the teacher saw, so a new topic has to be acknowledged again.
+export const mergeHighStakes = (flag: HighStakesFlag | undefined, detected: unknown): HighStakesFlag | undefined => {
+  const topics = Array.isArray(detected) ? detected.filter(isHighStakesTopic) : [];
+  const added = topics.filter(topic => !flag?.topics.includes(topic));
+  if (added.length === 0) return flag;
+  return {
+    topics: TOPICS.filter(topic => flag?.topics.includes(topic) || added.includes(topic)),
+    detectedAt: flag?.detectedAt ?? Date.now()
+  };
+};
+
+// Flagged messages are not played to the student until the teacher has acknowledged them
+export const needsAcknowledgement = (message: ChatMessage): boolean =>
+  !!message.highStakes && !message.highStakes.acknowledgedAt;
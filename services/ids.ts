@@ -0,0 +1,3 @@
+// Record ids for students, classes, tags and the like. Random UUIDs from the platform's
+// cryptographic generator, so ids created on different devices do not collide on import.
+export const generateId = (): string => crypto.randomUUID();
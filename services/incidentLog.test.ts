@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { IncidentEntry } from '../types';
+import {
+  IncidentDraft,
+  createIncidentEntry,
+  formatAnchor,
+  getLogAnchor,
+  matchesAnchor,
+  parseAnchor,
+  verifyIncidentLog
+} from './incidentLog';
+
+const draft = (overrides: Partial<IncidentDraft> = {}): IncidentDraft => ({
+  incidentId: 'incident-1',
+  type: 'disclosure',
+  timestamp: 1700000000000,
+  studentId: 's1',
+  studentName: 'Ana',
+  teacherName: 'Ms Rivera',
+  language: 'Portuguese',
+  originalText: 'Ele me bate',
+  translatedText: 'He hits me',
+  reason: 'Mentions "hits me"',
+  ...overrides
+});
+
+const buildLog = async (count: number): Promise<IncidentEntry[]> => {
+  const log: IncidentEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    log.push(await createIncidentEntry(log, i === 0
+      ? draft()
+      : draft({ type: 'action', timestamp: 1700000000000 + i, action: 'Informed the designated safeguarding lead', note: `Step ${i}` })));
+  }
+  return log;
+};
+
+describe('verifyIncidentLog', () => {
+  it('accepts an intact chain', async () => {
+    expect(await verifyIncidentLog(await buildLog(4))).toBeNull();
+    expect(await verifyIncidentLog([])).toBeNull();
+  });
+
+  it('points at an entry whose content was edited', async () => {
+    const log = await buildLog(4);
+    log[2] = { ...log[2], note: 'Rewritten later' };
+
+    expect(await verifyIncidentLog(log)).toBe(2);
+  });
+
+  it('points at the gap left by a removed entry', async () => {
+    const log = await buildLog(4);
+    log.splice(1, 1);
+
+    expect(await verifyIncidentLog(log)).toBe(1);
+  });
+
+  it('detects reordered entries', async () => {
+    const log = await buildLog(3);
+    [log[1], log[2]] = [log[2], log[1]];
+
+    expect(await verifyIncidentLog(log)).toBe(1);
+  });
+});
+
+describe('log anchors', () => {
+  it('round-trips through the text printed in a report', async () => {
+    const anchor = getLogAnchor(await buildLog(3));
+
+    expect(parseAnchor(`  ${formatAnchor(anchor).toUpperCase()} `)).toEqual(anchor);
+    expect(parseAnchor('3:not-a-hash')).toBeNull();
+  });
+
+  it('matches a log that only grew since the report', async () => {
+    const log = await buildLog(5);
+    const anchor = getLogAnchor(log.slice(0, 3));
+
+    expect(matchesAnchor(log, anchor)).toBe(true);
+    expect(matchesAnchor([], getLogAnchor([]))).toBe(true);
+  });
+
+  it('catches a log that was truncated or fully rewritten since the report', async () => {
+    const log = await buildLog(3);
+    const anchor = getLogAnchor(log);
+
+    expect(matchesAnchor(log.slice(0, 2), anchor)).toBe(false);
+
+    // Rewriting an entry and recomputing every later hash keeps the chain valid, but not the anchor
+    const rewritten: IncidentEntry[] = [];
+    for (const entry of log) {
+      const { id, previousHash, hash, ...rest } = entry;
+      rewritten.push(await createIncidentEntry(rewritten, rewritten.length === 1 ? { ...rest, note: 'Rewritten' } : rest));
+    }
+    expect(await verifyIncidentLog(rewritten)).toBeNull();
+    expect(matchesAnchor(rewritten, anchor)).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+import { IncidentEntry, SafeguardingSettings } from '../types';
+import { sha256Hex } from './crypto';
+import { generateId } from './ids';
+import { escapeHtml } from './transcriptExport';
+
+// Tamper-evident safeguarding incident log. Entries are only ever appended. Each entry stores
+// the hash of the previous one and a SHA-256 hash over its own content, so editing, removing
+// or reordering an earlier entry breaks the chain from that point on.
+// The chain lives in the same database as the entries, so on its own it only catches careless
+// edits: whoever rewrites an entry can recompute every later hash, and entries dropped from the
+// end leave no trace. Each report therefore carries an anchor (entry count and last hash) that
+// the safeguarding lead keeps outside the app; a later log is checked against it with
+// matchesAnchor, which fails if anything the report contained was changed or removed.
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export type IncidentDraft = Omit<IncidentEntry, 'id' | 'previousHash' | 'hash'>;
+
+export const INCIDENT_ACTIONS = [
+  'Followed the escalation steps',
+  'Informed the designated safeguarding lead',
+  'Contacted the emergency services',
+  'Completed the school\'s safeguarding form',
+  'Reviewed: not a disclosure (misheard or mistranslated)',
+  'Other'
+];
+
+// Fixed field order, so the same entry always hashes the same way
+const hashInput = (entry: Omit<IncidentEntry, 'hash'>): string => JSON.stringify([
+  entry.id, entry.incidentId, entry.type, entry.timestamp, entry.studentId, entry.studentName, entry.teacherName,
+  entry.messageId ?? null, entry.language ?? null, entry.originalText ?? null, entry.translatedText ?? null,
+  entry.reason ?? null, entry.action ?? null, entry.note ?? null, entry.previousHash
+]);
+
+export const createIncidentId = (): string => generateId();
+
+export const createIncidentEntry = async (log: IncidentEntry[], draft: IncidentDraft): Promise<IncidentEntry> => {
+  const entry = { ...draft, id: generateId(), previousHash: log[log.length - 1]?.hash || GENESIS_HASH };
+  return { ...entry, hash: await sha256Hex(hashInput(entry)) };
+};
+
+// Index of the first entry that does not match the chain, or null if the log is intact
+export const verifyIncidentLog = async (log: IncidentEntry[]): Promise<number | null> => {
+  let previousHash = GENESIS_HASH;
+  for (let i = 0; i < log.length; i++) {
+    const { hash, ...entry } = log[i];
+    if (entry.previousHash !== previousHash || hash !== await sha256Hex(hashInput(entry))) return i;
+    previousHash = hash;
+  }
+  return null;
+};
+
+export interface IncidentLogAnchor {
+  count: number;
+  headHash: string; // Hash of entry `count`, which commits to every entry before it
+}
+
+export const getLogAnchor = (log: IncidentEntry[]): IncidentLogAnchor => ({
+  count: log.length,
+  headHash: log[log.length - 1]?.hash || GENESIS_HASH
+});
+
+export const formatAnchor = (anchor: IncidentLogAnchor): string => `${anchor.count}:${anchor.headHash}`;
+
+// Accepts what formatAnchor produced, copied from a report; null if it is not an anchor
+export const parseAnchor = (text: string): IncidentLogAnchor | null => {
+  const match = text.trim().match(/^(\d+)\s*:\s*([0-9a-f]{64})$/i);
+  return match ? { count: Number(match[1]), headHash: match[2].toLowerCase() } : null;
+};
+
+// Whether every entry of an earlier report is still in the log, unchanged. Only meaningful
+// for a log that passed verifyIncidentLog.
+export const matchesAnchor = (log: IncidentEntry[], anchor: IncidentLogAnchor): boolean =>
+  anchor.count === 0
+    ? anchor.headHash === GENESIS_HASH
+    : log.length >= anchor.count && log[anchor.count - 1].hash === anchor.headHash;
+
+export const getIncidentEntries = (log: IncidentEntry[], incidentId: string): IncidentEntry[] =>
+  log.filter(entry => entry.incidentId === incidentId);
+
+// --- Report for the designated safeguarding lead ---
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; padding-top: 12px; border-top: 2px solid #e5e7eb; }
+  .meta { color: #6b7280; font-size: 12px; }
+  .status { margin: 16px 0; padding: 8px 12px; border-radius: 6px; font-weight: 600; }
+  .ok { background: #ecfdf5; color: #065f46; }
+  .broken { background: #fef2f2; color: #991b1b; }
+  .entry { margin: 8px 0; padding: 8px 12px; border-left: 3px solid #d1d5db; page-break-inside: avoid; }
+  .disclosure { border-left-color: #dc2626; background: #fef2f2; }
+  .label { color: #6b7280; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; }
+  .hash { font-family: ui-monospace, monospace; font-size: 10px; color: #9ca3af; word-break: break-all; }
+  .anchor { margin: 16px 0; padding: 8px 12px; border: 1px dashed #6b7280; border-radius: 6px; }
+  .anchor code { font-family: ui-monospace, monospace; font-size: 12px; word-break: break-all; }
+`;
+
+const renderEntry = (entry: IncidentEntry, broken: boolean): string => {
+  const when = escapeHtml(new Date(entry.timestamp).toLocaleString());
+  const fields = entry.type === 'disclosure'
+    ? [
+        `<div><span class="label">Detected</span> ${when} • ${escapeHtml(entry.reason || '')}</div>`,
+        `<div><span class="label">Original (${escapeHtml(entry.language || '')}, verbatim)</span><div dir="auto">${escapeHtml(entry.originalText || '')}</div></div>`,
+        `<div><span class="label">Translation</span><div>${escapeHtml(entry.translatedText || '')}</div></div>`
+      ]
+    : [
+        `<div><span class="label">Action</span> ${when} • ${escapeHtml(entry.action || '')}</div>`,
+        entry.note ? `<div>${escapeHtml(entry.note)}</div>` : ''
+      ];
+  return `
+    <div class="entry ${entry.type}">
+      ${fields.join('')}
+      <div class="meta">Recorded by ${escapeHtml(entry.teacherName)}${broken ? ' • <strong>does not match the chain</strong>' : ''}</div>
+      <div class="hash">${escapeHtml(entry.hash)}</div>
+    </div>`;
+};
+
+export const buildIncidentReportHtml = (log: IncidentEntry[], settings: SafeguardingSettings, brokenAt: number | null): string => {
+  const incidentIds = Array.from(new Set(log.map(entry => entry.incidentId)));
+  const sections = incidentIds.map(incidentId => {
+    const entries = log.map((entry, index) => ({ entry, index })).filter(({ entry }) => entry.incidentId === incidentId);
+    const first = entries[0].entry;
+    return `
+      <h2>${escapeHtml(first.studentName)} – ${escapeHtml(new Date(first.timestamp).toLocaleString())}</h2>
+      ${entries.map(({ entry, index }) => renderEntry(entry, brokenAt !== null && index >= brokenAt)).join('')}`;
+  }).join('');
+
+  const status = brokenAt === null
+    ? `<div class="status ok">Integrity check passed: ${log.length} entries, none altered or removed before the last one.</div>`
+    : `<div class="status broken">Integrity check FAILED at entry ${brokenAt + 1} of ${log.length}: it or an earlier entry was altered, removed or reordered.</div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Safeguarding incident log</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Safeguarding incident log</h1>
+  <div class="meta">
+    For: ${escapeHtml(settings.leadName || 'Designated safeguarding lead')} •
+    Exported ${escapeHtml(new Date().toLocaleString())}
+  </div>
+  ${status}
+  <div class="anchor">
+    <div class="label">Log anchor</div>
+    <code>${escapeHtml(formatAnchor(getLogAnchor(log)))}</code>
+    <div class="meta">Keep this report outside the app. Entering the anchor under Settings &gt; Safeguarding later shows whether any of these ${log.length} entries has since been changed or removed.</div>
+  </div>
+  ${sections || '<p class="meta">No incidents recorded.</p>'}
+</body>
+</html>`;
+};
+
+export const incidentLogFileName = (extension: string): string =>
+  `safeguarding_log_${new Date().toISOString().slice(0, 10)}.${extension}`;
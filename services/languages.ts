@@ -0,0 +1,174 @@
+// Shared language registry. Every place that needs a locale (speech recognition, browser
+// voices, text direction, the profile's language picker) looks languages up here instead
+// of keeping its own map.
+//
+// `stt` and `tts` record whether browsers commonly support the language for speech
+// recognition and ship a voice for it. Installed voices differ per device, so TTS support
+// is confirmed at runtime with speechSynthesis.getVoices().
+
+export interface LanguageInfo {
+  name: string; // Display name, stored on the student profile and used in prompts
+  code: string; // BCP-47 tag
+  script: string;
+  direction: 'ltr' | 'rtl';
+  stt: boolean;
+  tts: boolean;
+  aliases?: string[]; // Other names teachers type for the same language
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { name: 'English', code: 'en-US', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'English (UK)', code: 'en-GB', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Spanish', code: 'es-ES', script: 'Latin', direction: 'ltr', stt: true, tts: true, aliases: ['Español', 'Castilian'] },
+  { name: 'Spanish (Mexico)', code: 'es-MX', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Spanish (US)', code: 'es-US', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'French', code: 'fr-FR', script: 'Latin', direction: 'ltr', stt: true, tts: true, aliases: ['Français'] },
+  { name: 'French (Canada)', code: 'fr-CA', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'German', code: 'de-DE', script: 'Latin', direction: 'ltr', stt: true, tts: true, aliases: ['Deutsch'] },
+  { name: 'Italian', code: 'it-IT', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Portuguese', code: 'pt-BR', script: 'Latin', direction: 'ltr', stt: true, tts: true, aliases: ['Portuguese (Brazil)'] },
+  { name: 'Portuguese (Portugal)', code: 'pt-PT', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Dutch', code: 'nl-NL', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Polish', code: 'pl-PL', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Romanian', code: 'ro-RO', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Czech', code: 'cs-CZ', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Slovak', code: 'sk-SK', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Hungarian', code: 'hu-HU', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Lithuanian', code: 'lt-LT', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Latvian', code: 'lv-LV', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Albanian', code: 'sq-AL', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Croatian', code: 'hr-HR', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Bosnian', code: 'bs-BA', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Serbian', code: 'sr-RS', script: 'Cyrillic', direction: 'ltr', stt: true, tts: false },
+  { name: 'Bulgarian', code: 'bg-BG', script: 'Cyrillic', direction: 'ltr', stt: true, tts: false },
+  { name: 'Russian', code: 'ru-RU', script: 'Cyrillic', direction: 'ltr', stt: true, tts: true },
+  { name: 'Ukrainian', code: 'uk-UA', script: 'Cyrillic', direction: 'ltr', stt: true, tts: false },
+  { name: 'Greek', code: 'el-GR', script: 'Greek', direction: 'ltr', stt: true, tts: false },
+  { name: 'Turkish', code: 'tr-TR', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Arabic', code: 'ar-SA', script: 'Arabic', direction: 'rtl', stt: true, tts: false },
+  { name: 'Arabic (Egypt)', code: 'ar-EG', script: 'Arabic', direction: 'rtl', stt: true, tts: false },
+  { name: 'Arabic (Levant)', code: 'ar-SY', script: 'Arabic', direction: 'rtl', stt: true, tts: false },
+  { name: 'Persian', code: 'fa-IR', script: 'Arabic', direction: 'rtl', stt: true, tts: false, aliases: ['Farsi'] },
+  { name: 'Dari', code: 'fa-AF', script: 'Arabic', direction: 'rtl', stt: false, tts: false },
+  { name: 'Pashto', code: 'ps-AF', script: 'Arabic', direction: 'rtl', stt: false, tts: false },
+  { name: 'Kurdish (Sorani)', code: 'ckb-IQ', script: 'Arabic', direction: 'rtl', stt: false, tts: false },
+  { name: 'Kurdish (Kurmanji)', code: 'kmr-TR', script: 'Latin', direction: 'ltr', stt: false, tts: false },
+  { name: 'Hebrew', code: 'he-IL', script: 'Hebrew', direction: 'rtl', stt: true, tts: false },
+  { name: 'Urdu', code: 'ur-PK', script: 'Arabic', direction: 'rtl', stt: true, tts: false },
+  { name: 'Hindi', code: 'hi-IN', script: 'Devanagari', direction: 'ltr', stt: true, tts: true },
+  { name: 'Nepali', code: 'ne-NP', script: 'Devanagari', direction: 'ltr', stt: true, tts: false },
+  { name: 'Bengali', code: 'bn-BD', script: 'Bengali', direction: 'ltr', stt: true, tts: false, aliases: ['Bangla'] },
+  { name: 'Punjabi', code: 'pa-IN', script: 'Gurmukhi', direction: 'ltr', stt: true, tts: false },
+  { name: 'Gujarati', code: 'gu-IN', script: 'Gujarati', direction: 'ltr', stt: true, tts: false },
+  { name: 'Tamil', code: 'ta-IN', script: 'Tamil', direction: 'ltr', stt: true, tts: false },
+  { name: 'Telugu', code: 'te-IN', script: 'Telugu', direction: 'ltr', stt: true, tts: false },
+  { name: 'Chinese (Simplified)', code: 'zh-CN', script: 'Han (Simplified)', direction: 'ltr', stt: true, tts: true, aliases: ['Chinese', 'Mandarin'] },
+  { name: 'Chinese (Traditional)', code: 'zh-TW', script: 'Han (Traditional)', direction: 'ltr', stt: true, tts: true },
+  { name: 'Cantonese', code: 'zh-HK', script: 'Han (Traditional)', direction: 'ltr', stt: true, tts: true },
+  { name: 'Japanese', code: 'ja-JP', script: 'Japanese', direction: 'ltr', stt: true, tts: true },
+  { name: 'Korean', code: 'ko-KR', script: 'Hangul', direction: 'ltr', stt: true, tts: true },
+  { name: 'Vietnamese', code: 'vi-VN', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Thai', code: 'th-TH', script: 'Thai', direction: 'ltr', stt: true, tts: false },
+  { name: 'Burmese', code: 'my-MM', script: 'Myanmar', direction: 'ltr', stt: true, tts: false },
+  { name: 'Khmer', code: 'km-KH', script: 'Khmer', direction: 'ltr', stt: true, tts: false },
+  { name: 'Indonesian', code: 'id-ID', script: 'Latin', direction: 'ltr', stt: true, tts: true },
+  { name: 'Malay', code: 'ms-MY', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Filipino', code: 'fil-PH', script: 'Latin', direction: 'ltr', stt: true, tts: false, aliases: ['Tagalog'] },
+  { name: 'Somali', code: 'so-SO', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Swahili', code: 'sw-KE', script: 'Latin', direction: 'ltr', stt: true, tts: false },
+  { name: 'Amharic', code: 'am-ET', script: 'Ethiopic', direction: 'ltr', stt: true, tts: false },
+  { name: 'Tigrinya', code: 'ti-ER', script: 'Ethiopic', direction: 'ltr', stt: false, tts: false },
+  { name: 'Yoruba', code: 'yo-NG', script: 'Latin', direction: 'ltr', stt: false, tts: false },
+  { name: 'Igbo', code: 'ig-NG', script: 'Latin', direction: 'ltr', stt: false, tts: false },
+  { name: 'Hausa', code: 'ha-NG', script: 'Latin', direction: 'ltr', stt: false, tts: false },
+  { name: 'Haitian Creole', code: 'ht-HT', script: 'Latin', direction: 'ltr', stt: false, tts: false }
+];
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+// Looks a language up by display name, alias or BCP-47 tag. Profiles written before the
+// registry hold free text, so an unknown value returns undefined rather than a guess.
+export const findLanguage = (nameOrCode: string): LanguageInfo | undefined => {
+  const key = normalize(nameOrCode);
+  if (!key) return undefined;
+  return LANGUAGES.find(l => normalize(l.name) === key)
+    || LANGUAGES.find(l => l.aliases?.some(alias => normalize(alias) === key))
+    || LANGUAGES.find(l => normalize(l.code) === key);
+};
+
+// For the language picker: matches the name, an alias, the start of the tag or the script,
+// so "arabic" also finds Urdu and Persian
+export const searchLanguages = (query: string): LanguageInfo[] => {
+  const key = normalize(query);
+  if (!key) return LANGUAGES;
+  return LANGUAGES.filter(l =>
+    normalize(l.name).includes(key) ||
+    normalize(l.code).startsWith(key) ||
+    normalize(l.script).includes(key) ||
+    l.aliases?.some(alias => normalize(alias).includes(key)));
+};
+
+export const getLanguageDirection = (language: string): 'ltr' | 'rtl' =>
+  findLanguage(language)?.direction || 'ltr';
+
+// Letters of each registry script, for telling languages apart by what a transcript is written in
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  'Latin': /\p{Script=Latin}/u,
+  'Cyrillic': /\p{Script=Cyrillic}/u,
+  'Greek': /\p{Script=Greek}/u,
+  'Arabic': /\p{Script=Arabic}/u,
+  'Hebrew': /\p{Script=Hebrew}/u,
+  'Devanagari': /\p{Script=Devanagari}/u,
+  'Bengali': /\p{Script=Bengali}/u,
+  'Gurmukhi': /\p{Script=Gurmukhi}/u,
+  'Gujarati': /\p{Script=Gujarati}/u,
+  'Tamil': /\p{Script=Tamil}/u,
+  'Telugu': /\p{Script=Telugu}/u,
+  'Han (Simplified)': /\p{Script=Han}/u,
+  'Han (Traditional)': /\p{Script=Han}/u,
+  'Japanese': /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u,
+  'Hangul': /\p{Script=Hangul}/u,
+  'Thai': /\p{Script=Thai}/u,
+  'Myanmar': /\p{Script=Myanmar}/u,
+  'Khmer': /\p{Script=Khmer}/u,
+  'Ethiopic': /\p{Script=Ethiopic}/u
+};
+
+// Share of the letters in `text` written in the given script, or null for an unknown script
+// or a text without letters
+export const scriptShare = (text: string, script: string): number | null => {
+  const pattern = SCRIPT_PATTERNS[script];
+  const letters = Array.from(text).filter(char => /\p{L}/u.test(char));
+  if (!pattern || letters.length === 0) return null;
+  return letters.filter(char => pattern.test(char)).length / letters.length;
+};
+
+// --- Browser voices ---
+
+// getVoices() is empty until the browser has loaded its voice list, which some browsers
+// announce with a voiceschanged event
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!('speechSynthesis' in window)) return Promise.resolve([]);
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      window.clearTimeout(timer);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    // Browsers without voices never fire the event
+    const timer = window.setTimeout(done, 1500);
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+  });
+};
+
+const baseLanguage = (code: string) => normalize(code).split(/[-_]/)[0];
+
+// Best installed voice for a BCP-47 tag: same dialect first, then any voice of the language
+export const findVoice = (code: string, voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | undefined => {
+  const tag = normalize(code).replace('_', '-');
+  return voices.find(v => normalize(v.lang).replace('_', '-') === tag)
+    || voices.find(v => baseLanguage(v.lang) === baseLanguage(code));
+};
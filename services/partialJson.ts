@@ -0,0 +1,36 @@
+// Reads a string field out of a JSON object that is still being streamed, e.g.
+// `{"translation": "Hola, ¿cómo est` -> "Hola, ¿cómo est". Returns undefined until the
+// field's opening quote has arrived. An escape sequence cut off mid-way is dropped until
+// the rest of it arrives.
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+export const readPartialJsonString = (json: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) return undefined;
+
+  let result = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') return result; // Field complete
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      result += SIMPLE_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return result;
+};
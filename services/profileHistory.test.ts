@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SensitivityTag, StudentProfile } from '../types';
+import { diffLines, diffSensitivities, recordRevision, restoreRevision } from './profileHistory';
+
+const tag = (id: string, notes: string, source: SensitivityTag['source'] = 'teacher'): SensitivityTag => ({
+  id, kind: 'other', notes, source
+});
+
+const student = (overrides: Partial<StudentProfile> = {}): StudentProfile => ({
+  id: 's1', name: 'Ana', language: 'Spanish', age: 9, mode: 'translate', sensitivities: [], ...overrides
+});
+
+describe('diffLines', () => {
+  it('reports unchanged text as same rows', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { kind: 'same', left: 'a', right: 'a' },
+      { kind: 'same', left: 'b', right: 'b' }
+    ]);
+  });
+
+  it('pairs a replaced line with its replacement', () => {
+    expect(diffLines('a\nold\nc', 'a\nnew\nc')).toEqual([
+      { kind: 'same', left: 'a', right: 'a' },
+      { kind: 'changed', left: 'old', right: 'new' },
+      { kind: 'same', left: 'c', right: 'c' }
+    ]);
+  });
+
+  it('shows pure insertions and deletions on one side only', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+      { kind: 'same', left: 'a', right: 'a' },
+      { kind: 'added', left: undefined, right: 'b' },
+      { kind: 'same', left: 'c', right: 'c' }
+    ]);
+    expect(diffLines('a\nb\nc', 'a\nc').map(row => row.kind)).toEqual(['same', 'removed', 'same']);
+  });
+
+  it('pairs lines in order when more were removed than added', () => {
+    expect(diffLines('x\ny\nz', 'q')).toEqual([
+      { kind: 'changed', left: 'x', right: 'q' },
+      { kind: 'removed', left: 'y', right: undefined },
+      { kind: 'removed', left: 'z', right: undefined }
+    ]);
+  });
+
+  it('treats empty text as no lines', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'a')).toEqual([{ kind: 'added', left: undefined, right: 'a' }]);
+    expect(diffLines('a', '')).toEqual([{ kind: 'removed', left: 'a', right: undefined }]);
+  });
+});
+
+describe('diffSensitivities', () => {
+  it('matches tags by content rather than id', () => {
+    const diff = diffSensitivities(
+      [tag('1', 'Loud noises'), tag('2', 'Trains', 'ai')],
+      [tag('9', ' Loud noises '), tag('3', 'Dinosaurs', 'ai')]
+    );
+
+    expect(diff.unchanged.map(t => t.id)).toEqual(['9']);
+    expect(diff.removed.map(t => t.id)).toEqual(['2']);
+    expect(diff.added.map(t => t.id)).toEqual(['3']);
+  });
+});
+
+describe('recordRevision', () => {
+  it('records a revision only when the content changed', () => {
+    const first = recordRevision(student({ guideBook: 'Use short sentences.' }), 'teacher');
+    expect(first.history).toHaveLength(1);
+    expect(recordRevision(first, 'ai')).toBe(first);
+
+    const second = recordRevision({ ...first, sensitivities: [tag('1', 'Loud noises')] }, 'ai');
+    expect(second.history?.map(r => r.source)).toEqual(['teacher', 'ai']);
+  });
+
+  it('rolls back by recording the restored content as a new revision', () => {
+    const first = recordRevision(student({ guideBook: 'Version one' }), 'teacher');
+    const second = recordRevision({ ...first, guideBook: 'Version two' }, 'ai');
+    const firstId = second.history![0].id;
+
+    const restored = restoreRevision(second, firstId);
+
+    expect(restored.guideBook).toBe('Version one');
+    expect(restored.history).toHaveLength(3);
+    expect(restored.history?.[2]).toMatchObject({ source: 'teacher', guideBook: 'Version one', restoredFrom: firstId });
+  });
+});
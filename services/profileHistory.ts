@@ -0,0 +1,134 @@
+import { ProfileRevision, SensitivityTag, StudentProfile } from '../types';
+import { generateId } from './ids';
+
+// Version history of a student's guidebook and sensitivities. Every change, whether the teacher
+// edited the tags or an AI analysis rewrote them, is kept as a snapshot, so a bad analysis can
+// be compared with what came before and rolled back.
+
+// Older revisions beyond this are dropped; a guidebook is a few KB, so this stays small
+const MAX_REVISIONS = 50;
+
+type ProfileContent = Pick<ProfileRevision, 'guideBook' | 'sensitivities'>;
+
+const EMPTY_CONTENT: ProfileContent = { guideBook: '', sensitivities: [] };
+
+const contentOf = (student: StudentProfile): ProfileContent => ({
+  guideBook: student.guideBook || '',
+  sensitivities: student.sensitivities
+});
+
+const sameTag = (a: SensitivityTag, b: SensitivityTag) =>
+  a.kind === b.kind && a.notes.trim() === b.notes.trim() && a.source === b.source;
+
+const sameContent = (a: ProfileContent, b: ProfileContent) =>
+  a.guideBook === b.guideBook &&
+  a.sensitivities.length === b.sensitivities.length &&
+  a.sensitivities.every((tag, index) => sameTag(tag, b.sensitivities[index]));
+
+export const getLatestRevision = (student: StudentProfile): ProfileRevision | undefined =>
+  student.history?.[student.history.length - 1];
+
+// Appends a snapshot if the guidebook or sensitivities differ from the latest one.
+// Call it with the profile as it is after the change.
+export const recordRevision = (student: StudentProfile, source: ProfileRevision['source'], restoredFrom?: string): StudentProfile => {
+  const latest = getLatestRevision(student);
+  const content = contentOf(student);
+  if (sameContent(latest || EMPTY_CONTENT, content)) return student;
+
+  const revision: ProfileRevision = {
+    id: generateId(),
+    timestamp: Date.now(),
+    source,
+    guideBook: content.guideBook,
+    sensitivities: content.sensitivities,
+    ...(restoredFrom && { restoredFrom })
+  };
+  return { ...student, history: [...(student.history || []), revision].slice(-MAX_REVISIONS) };
+};
+
+// Rollback is itself a change, so nothing after the restored revision is lost
+export const restoreRevision = (student: StudentProfile, revisionId: string): StudentProfile => {
+  const revision = student.history?.find(r => r.id === revisionId);
+  if (!revision) return student;
+  return recordRevision({ ...student, guideBook: revision.guideBook, sensitivities: revision.sensitivities }, 'teacher', revision.id);
+};
+
+// Starting point for profiles saved before history was kept
+export const createMigratedRevision = (student: { guideBook?: unknown; sensitivities?: unknown }): ProfileRevision[] => {
+  const guideBook = typeof student.guideBook === 'string' ? student.guideBook : '';
+  const sensitivities = Array.isArray(student.sensitivities) ? student.sensitivities : [];
+  if (!guideBook && sensitivities.length === 0) return [];
+  return [{ id: generateId(), timestamp: Date.now(), source: 'migrated', guideBook, sensitivities }];
+};
+
+export const describeRevisionSource = (revision: ProfileRevision): string => {
+  if (revision.restoredFrom) return 'Rollback';
+  if (revision.source === 'ai') return 'AI analysis';
+  if (revision.source === 'migrated') return 'Before history';
+  return 'Teacher edit';
+};
+
+// --- Diff ---
+
+// One row of a side-by-side diff. A row with both sides and kind 'changed' pairs a removed
+// line with the line that replaced it.
+export interface DiffRow {
+  kind: 'same' | 'removed' | 'added' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+// Line diff via the longest common subsequence; guidebooks are short enough for O(n*m)
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ kind: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return rows;
+};
+
+export interface SensitivityDiff {
+  removed: SensitivityTag[];
+  added: SensitivityTag[];
+  unchanged: SensitivityTag[];
+}
+
+// Tags are matched by content rather than id, since an AI analysis re-creates its tags
+export const diffSensitivities = (before: SensitivityTag[], after: SensitivityTag[]): SensitivityDiff => ({
+  removed: before.filter(tag => !after.some(other => sameTag(tag, other))),
+  added: after.filter(tag => !before.some(other => sameTag(tag, other))),
+  unchanged: after.filter(tag => before.some(other => sameTag(tag, other)))
+});
@@ -0,0 +1,117 @@
+import { ChatMessage, ProposedChange, SensitivityKind, SensitivityTag, StudentProfile } from '../types';
+import { createSensitivityTag, isSensitivityKind } from './sensitivities';
+import { recordRevision } from './profileHistory';
+import { generateId } from './ids';
+import { isObject } from './guards';
+
+// Review queue for AI-proposed changes to a student's sensitivities. An analysis only ever
+// adds proposals to student.pendingChanges; the teacher accepts (optionally edited) or
+// rejects each one, and only an accepted proposal changes the tags.
+
+const MAX_EVIDENCE = 3;
+// Shorter fragments, like a single word, would match almost any chat; they must be a whole message
+const MIN_PARTIAL_QUOTE = 12;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const describes = (tag: SensitivityTag, kind: SensitivityKind, notes: string) =>
+  tag.kind === kind && normalize(tag.notes) === normalize(notes);
+
+const sameProposal = (a: ProposedChange, b: Pick<ProposedChange, 'action' | 'kind' | 'notes'>) =>
+  a.action === b.action && a.kind === b.kind && normalize(a.notes) === normalize(b.notes);
+
+// Models vary case, spacing and quote marks, and sometimes repeat the "STUDENT:" prefix and
+// quotes the chat history is given with; the words themselves must match
+const normalizeQuote = (text: string) =>
+  normalize(text.replace(/[\u201C\u201D]/g, '"').replace(/[\u2018\u2019]/g, "'").replace(/\s+/g, ' '))
+    .replace(/^(teacher|student):\s*/, '')
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .trim();
+
+// Both sides of every message the analysis saw; failed or queued messages are left out of it
+const quotableTexts = (chats: ChatMessage[]): string[] =>
+  chats.filter(c => !c.status).flatMap(c => [c.originalText, c.translatedText]).map(normalizeQuote).filter(Boolean);
+
+const occursIn = (quote: string, texts: string[]) =>
+  !!quote && texts.some(text => text === quote || (quote.length >= MIN_PARTIAL_QUOTE && text.includes(quote)));
+
+// Keeps the quoted lines that actually occur in the chat history
+const verifyEvidence = (evidence: unknown, texts: string[]): string[] => {
+  if (!Array.isArray(evidence)) return [];
+  return evidence
+    .filter((line: unknown): line is string => typeof line === 'string' && occursIn(normalizeQuote(line), texts))
+    .map(line => line.trim())
+    .slice(0, MAX_EVIDENCE);
+};
+
+// Checks the model's suggestions and turns the new ones into proposals. Suggestions without a
+// quote from `chats` to back them, additions the profile already has, removals of tags that do
+// not exist or that the teacher added, and anything already waiting in the queue are dropped.
+export const toProposedChanges = (student: StudentProfile, suggestions: unknown, chats: ChatMessage[]): ProposedChange[] => {
+  if (!Array.isArray(suggestions)) return [];
+  const pending = student.pendingChanges || [];
+  const texts = quotableTexts(chats);
+  const proposals: ProposedChange[] = [];
+
+  suggestions.forEach((suggestion: unknown) => {
+    if (!isObject(suggestion)) return;
+    const { action, kind } = suggestion;
+    if ((action !== 'add' && action !== 'remove') || !isSensitivityKind(kind)) return;
+    const notes = typeof suggestion.notes === 'string' ? suggestion.notes.trim() : '';
+    const evidence = verifyEvidence(suggestion.evidence, texts);
+    if (evidence.length === 0) return;
+    const candidate: Pick<ProposedChange, 'action' | 'kind' | 'notes'> = { action, kind, notes };
+    if ([...pending, ...proposals].some(p => sameProposal(p, candidate))) return;
+
+    if (candidate.action === 'add') {
+      if (!notes || student.sensitivities.some(tag => describes(tag, candidate.kind, notes))) return;
+      proposals.push({ id: generateId(), ...candidate, evidence, proposedAt: Date.now() });
+    } else {
+      const tag = student.sensitivities.find(t => t.source === 'ai' && describes(t, candidate.kind, notes));
+      if (!tag) return;
+      proposals.push({ id: generateId(), ...candidate, notes: tag.notes, tagId: tag.id, evidence, proposedAt: Date.now() });
+    }
+  });
+
+  return proposals;
+};
+
+export const queueProposedChanges = (student: StudentProfile, suggestions: unknown, chats: ChatMessage[]): StudentProfile => {
+  const proposals = toProposedChanges(student, suggestions, chats);
+  return proposals.length === 0 ? student : { ...student, pendingChanges: [...(student.pendingChanges || []), ...proposals] };
+};
+
+const withoutProposal = (student: StudentProfile, changeId: string): StudentProfile => {
+  const pendingChanges = (student.pendingChanges || []).filter(change => change.id !== changeId);
+  const { pendingChanges: _previous, ...rest } = student;
+  return pendingChanges.length > 0 ? { ...rest, pendingChanges } : rest;
+};
+
+// `edited` replaces the proposed kind and notes of an addition; the tag then counts as the teacher's
+export const acceptProposedChange = (
+  student: StudentProfile,
+  changeId: string,
+  edited?: { kind: SensitivityKind; notes: string }
+): StudentProfile => {
+  const change = student.pendingChanges?.find(c => c.id === changeId);
+  if (!change) return student;
+
+  const isEdited = !!edited && (edited.kind !== change.kind || edited.notes.trim() !== change.notes);
+  const sensitivities = change.action === 'add'
+    ? [...student.sensitivities, isEdited
+        ? createSensitivityTag(edited!.kind, edited!.notes.trim(), 'teacher')
+        : createSensitivityTag(change.kind, change.notes, 'ai')]
+    : student.sensitivities.filter(tag => tag.id !== change.tagId);
+
+  return recordRevision({ ...withoutProposal(student, changeId), sensitivities }, isEdited ? 'teacher' : 'ai');
+};
+
+export const rejectProposedChange = (student: StudentProfile, changeId: string): StudentProfile =>
+  withoutProposal(student, changeId);
+
+// A removal is stale once its tag is gone, e.g. after the teacher deleted it by hand
+export const getPendingChanges = (student: StudentProfile): ProposedChange[] =>
+  (student.pendingChanges || []).filter(change => change.action === 'add' || student.sensitivities.some(tag => tag.id === change.tagId));
+
+export const countPendingChanges = (students: StudentProfile[]): number =>
+  students.reduce((total, student) => total + getPendingChanges(student).length, 0);
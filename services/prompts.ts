@@ -0,0 +1,297 @@
+import { StudentProfile, ChatMessage, SenderType, ClassGroup } from "../types";
+import { SENSITIVITY_KINDS, buildSensitivityContext, listSensitivitiesForReview } from "./sensitivities";
+import { HIGH_STAKES_TOPICS } from "./highStakes";
+
+// Prompt builders shared by every AI provider so that Gemini, local models and
+// any future backend receive exactly the same instructions.
+
+// Lesson context from the student's class, empty when they are not in a class
+const buildClassContext = (classGroup?: ClassGroup): string => {
+  if (!classGroup) return '';
+  const lines: string[] = [];
+  if (classGroup.subject?.trim()) {
+    lines.push(`Lesson Context: This is a ${classGroup.subject.trim()} class (${classGroup.name}). Use subject vocabulary appropriate for the student's age.`);
+  }
+  if (classGroup.glossary?.trim()) {
+    lines.push(`Class Glossary (always use these renderings for subject terms):\n${classGroup.glossary.trim()}`);
+  }
+  return lines.join('\n');
+};
+
+// Every translation doubles as the AI pass of the high-stakes check, in both directions
+const HIGH_STAKES_INSTRUCTION = `
+        Also add "highStakesTopics": a list of the topics below that the message is about, or [] if none.
+        Topics: ${Object.keys(HIGH_STAKES_TOPICS).join(', ')}.
+        Include a topic whenever the message touches on health or medication, the police, courts or immigration, possible harm or abuse, exclusion or suspension from school, or an injury. When unsure, include it.
+      `;
+
+// Student messages are also screened for safeguarding disclosures, see services/safeguarding.ts
+const DISCLOSURE_INSTRUCTION = `
+        Also add "possibleDisclosure": if the student may be disclosing abuse, neglect, self-harm, being unsafe at home or any other risk of harm to themselves or others, one short English sentence saying what was disclosed; otherwise "".
+        Err on the side of flagging. Do not soften or leave out anything in the translation itself.
+      `;
+
+export const buildTranslationInstruction = (
+  teacherName: string,
+  student: StudentProfile,
+  sender: SenderType,
+  classGroup?: ClassGroup
+): string => `${buildTranslationTask(teacherName, student, sender, classGroup)}${HIGH_STAKES_INSTRUCTION}${sender === 'student' ? DISCLOSURE_INSTRUCTION : ''}`;
+
+const buildTranslationTask = (
+  teacherName: string,
+  student: StudentProfile,
+  sender: SenderType,
+  classGroup?: ClassGroup
+): string => {
+  const classContext = buildClassContext(classGroup);
+  const needs = buildSensitivityContext(student.sensitivities);
+
+  if (sender === 'teacher') {
+    if (student.mode === 'translate-and-adapt') {
+      // Combined Translation + Neurodivergent Adaptation Prompt
+      return `
+        You are a culturally sensitive translator and Neurodiversity Communication Specialist assisting a teacher (${teacherName}).
+        The student (${student.name}, ${student.age}yrs) speaks ${student.language} and has specific neurodivergent needs.
+
+        ${needs}
+        ${classContext}
+
+        Task:
+        1. Translate the teacher's message (English) into the student's language (${student.language}).
+        2. In the same step, adapt it to the student's processing style: apply every adaptation listed for the student's needs, using natural phrasing in ${student.language} rather than a literal rendering of the English.
+        3. Ensure the tone is friendly, encouraging, and age-appropriate.
+        4. Return JSON: { "translation": string (The adapted text in ${student.language}), "culturalNote": string (Cultural context and why the adaptation helps) }.
+      `;
+    }
+    if (student.mode === 'adapt') {
+      // Neurodivergent Adaptation Prompt
+      return `
+        You are a Neurodiversity Communication Specialist assisting a teacher (${teacherName}).
+        The student (${student.name}, ${student.age}yrs) speaks English but has specific neurodivergent needs.
+        
+        ${needs}
+        ${classContext}
+
+        Task:
+        1. Adapt the teacher's message (English) into a version optimized for the student's processing style (English).
+        2. Apply every adaptation listed for the student's needs.
+        3. Return JSON: { "translation": string (The adapted English text), "culturalNote": string (Why this change helps) }.
+      `;
+    }
+    // Standard Translation Prompt
+    return `
+        You are a compassionate, culturally sensitive translation assistant for a teacher (${teacherName}) communicating with a student (${student.name}, ${student.age}yrs, ${student.language}).
+        
+        ${needs}
+        ${classContext}
+
+        Task:
+        1. Translate the teacher's message (English) into the student's language (${student.language}).
+        2. Ensure the tone is friendly, encouraging, and age-appropriate.
+        3. Provide a "culturalNote" if specific cultural context is needed or if you softened a phrase.
+        4. Return JSON: { "translation": string, "culturalNote": string }.
+      `;
+  }
+
+  // Student is speaking
+  if (student.mode === 'translate-and-adapt') {
+    // Combined Interpretation Prompt
+    return `
+        You are an interpreter and Neurodiversity Specialist helping a student (${student.name}, ${student.age}yrs, ${student.language}) speak to their teacher (${teacherName}).
+        ${needs}
+        ${classContext}
+
+        Task:
+        1. Translate the student's message (from ${student.language} or broken English) into clear English that conveys its underlying intent or emotional meaning.
+        2. If the student is blunt, explain it's not rudeness but literalness.
+        3. If the student refuses (e.g., "No"), check for sensory overwhelm or anxiety triggers in the context.
+        4. Return JSON: { "translation": string (The interpreted intent in clear English), "culturalNote": string (Cultural and behavioral insight) }.
+      `;
+  }
+  if (student.mode === 'adapt') {
+    // Neurodivergent Interpretation Prompt
+    return `
+        You are a Neurodiversity Specialist helping a teacher interpret a student's communication.
+        Student: ${student.name}, ${student.age}, English speaker.
+        ${needs}
+        ${classContext}
+
+        Task:
+        1. "Translate" the student's message into its underlying intent or emotional meaning for the teacher.
+        2. If the student is blunt, explain it's not rudeness but literalness.
+        3. If the student refuses (e.g., "No"), check for sensory overwhelm or anxiety triggers in the context.
+        4. Return JSON: { "translation": string (The interpreted intent in clear English), "culturalNote": string (Behavioral insight) }.
+      `;
+  }
+  // Standard Interpretation Prompt
+  return `
+        You are an interpreter helping a student (${student.name}, ${student.age}yrs, ${student.language}) speak to their teacher (${teacherName}).
+        ${classContext}
+
+        Task:
+        1. Translate the student's message (from ${student.language} or broken English) into clear, polite English for the teacher.
+        2. Keep the child's voice/intent but make it understandable.
+        3. Provide a "culturalNote" if the student used a specific cultural idiom or if the teacher should know something about *why* they said it that way.
+        4. Return JSON: { "translation": string, "culturalNote": string }.
+      `;
+};
+
+export const buildGuideBookInstruction = (
+  student: StudentProfile,
+  chats: ChatMessage[]
+): string => {
+  // Format chat history for context. Failed or queued messages have no translation to learn from.
+  const chatHistory = chats.filter(c => !c.status).map(c => 
+    `${c.sender.toUpperCase()}: "${c.originalText}" (Translation/Adaptation: "${c.translatedText}")`
+  ).join('\n');
+
+  return `
+    You are an expert educational consultant. 
+    Analyze the following profile and chat history between a teacher and a student.
+    
+    Student: ${student.name}, ${student.age}, ${student.language}.
+    Current Known Needs:
+    ${listSensitivitiesForReview(student.sensitivities)}
+
+    Chat History:
+    ${chatHistory}
+
+    Task:
+    1. Create a "Guide Book" for the teacher. This should be a Markdown formatted text containing:
+       - Communication Style: How the student prefers to communicate (e.g. Visual, Literal, Story-based).
+       - Insights: Cultural or Neurodivergent specific insights.
+       - Engagement Tips: How to best motivate this specific student based on past chats.
+    
+    2. Propose changes to the known needs ("proposedChanges"), one per need. The teacher reviews each one before it is applied.
+       Each change has an "action", a "kind", short "notes" and "evidence": up to 3 lines from the chat history, quoted exactly, that support it. Changes without evidence from the chat history are discarded.
+       - "add": a need the chat history shows that is not recorded yet.
+       - "remove": a need added by AI that the chat history contradicts. Repeat its kind and notes exactly as listed above. Never propose removing needs added by the teacher.
+       Kinds: ${Object.keys(SENSITIVITY_KINDS).join(', ')}.
+       Only propose changes the chat history supports. Return [] if nothing should change.
+
+    Return JSON.
+  `;
+};
+
+export const buildCommunicationOptionsInstruction = (
+  teacherName: string,
+  student: StudentProfile,
+  chats: ChatMessage[],
+  classGroup?: ClassGroup
+): string => {
+  const classContext = buildClassContext(classGroup);
+  const needs = buildSensitivityContext(student.sensitivities);
+
+  // Get last 5 messages for context
+  const recentContext = chats.filter(c => !c.status).slice(-5).map(c => `${c.sender}: ${c.originalText}`).join('\n');
+
+  if (student.mode === 'translate-and-adapt') {
+    return `
+      You are an expert Neurodiversity Communication Consultant with deep cultural and language knowledge.
+      A teacher (${teacherName}) wants to convey an intent to a student (${student.name}, ${student.age}, ${student.language}) who has specific communication needs.
+
+      ${needs}
+      Recent Context: ${recentContext}
+      ${classContext}
+
+      Teacher Intent: The teacher will provide what they WANT to say or achieve.
+      Your goal: Provide 3 distinct strategies that adapt this intent to the student's processing style and express it naturally in ${student.language}.
+
+      Task:
+      Generate 3 distinct options. For each option:
+      1. Strategy: A short label (e.g., "Declarative Language", "Interest-Based", "Collaborative").
+      2. English Text: The ADAPTED message in English, so the teacher knows what is being said.
+      3. Translated Text: The same adapted message in ${student.language}.
+      4. Reasoning: Why this adaptation works for this specific profile and culture.
+
+      Return JSON with an "options" array.
+    `;
+  }
+  if (student.mode === 'adapt') {
+    return `
+      You are an expert Neurodiversity Communication Consultant.
+      A teacher (${teacherName}) wants to convey an intent to a student (${student.name}, ${student.age}) who has specific communication needs.
+      
+      ${needs}
+      Recent Context: ${recentContext}
+      ${classContext}
+
+      Teacher Intent: The teacher will provide what they WANT to say or achieve.
+      Your goal: Provide 3 distinct strategies to rephrase this intent into language that works for the student's brain (e.g. avoiding demands for PDA, being literal for Autism).
+
+      Task:
+      Generate 3 distinct options. For each option:
+      1. Strategy: A short label (e.g., "Declarative Language", "Interest-Based", "Visual Metaphor").
+      2. English Text: What the teacher originally meant (Refined if needed).
+      3. Translated Text: The ADAPTED English message the teacher should actually say.
+      4. Reasoning: Why this adaptation lowers anxiety or improves understanding for this specific profile.
+      
+      Return JSON with an "options" array.
+    `;
+  }
+  return `
+      You are an expert pedagogical and cultural consultant.
+      A teacher (${teacherName}) wants to convey an intent to a student (${student.name}, ${student.age}, ${student.language}).
+      
+      ${needs}
+      Recent Context: ${recentContext}
+      ${classContext}
+
+      Teacher Intent: The teacher will provide their INTENT.
+      Your goal: Provide 3 distinct approaches to convey this intent effectively and sensitively in the target language.
+
+      Task:
+      Generate 3 distinct options. For each option:
+      1. Strategy: A short label (e.g., "Direct & Gentle", "Metaphorical", "Collaborative").
+      2. English Text: What the teacher would effectively say in English.
+      3. Translated Text: The translation in ${student.language}.
+      4. Reasoning: Why this approach works for this specific student profile/culture.
+
+      Return JSON with an "options" array.
+    `;
+};
+
+// Fidelity check, step 1. The translator never sees the teacher's English, so it cannot
+// simply echo it back and hide what the student will actually read.
+export const buildBackTranslationInstruction = (language: string): string => `
+    You are an independent translator.
+    Translate the following ${language} text into English as literally as possible while keeping it readable.
+
+    Rules:
+    - Do not improve, soften, complete or explain the text. Keep any ambiguity, missing detail or change of tone exactly as it is.
+    - If part of the text is not in ${language} or cannot be understood, render it as it is and mark it with [unclear].
+
+    Return JSON: { "backTranslation": string }.
+  `;
+
+// Fidelity check, step 2: how far the back-translation drifted from the teacher's meaning
+export const buildFidelityInstruction = (): string => `
+    You check translations for a teacher who cannot read the student's language.
+    You get the teacher's original English message and an independent back-translation of what the student will read.
+
+    Task:
+    1. Score the semantic drift from 0 to 100: 0 means the same meaning, 100 means unrelated.
+       - Differences in wording, politeness or warmth alone count very little; the translation is meant to sound natural and kind.
+       - A lost, weakened or added instruction, requirement, deadline, time, place, quantity, condition, negation or consequence counts heavily (for example "you must hand it in today" becoming "you could hand it in").
+    2. List each divergence in meaning as one short sentence the teacher can act on. Return an empty list if the meaning is kept.
+
+    Return JSON: { "driftScore": number, "divergences": string[] }.
+  `;
+
+export const buildFidelityContent = (original: string, backTranslation: string): string =>
+  `Original: "${original}"\nBack-translation: "${backTranslation}"`;
+
+// Conversation mode: speech recognition transcribes in one language only, so a transcript may be
+// the other person's speech forced into the wrong language
+export const buildLanguageIdInstruction = (heardAs: string, alternative: string): string => `
+    You check speech recognition results for a teacher and a student who speak different languages.
+    The recogniser was listening for ${heardAs} and produced the transcript you are given. The speaker may instead have been speaking ${alternative}; the recogniser then writes the ${alternative} speech as ${heardAs}-sounding words that make little sense together.
+
+    Decide which language the speaker was actually using:
+    - "${heardAs}" if the transcript reads as a sensible ${heardAs} utterance.
+    - "${alternative}" if it contains ${alternative} words, or reads like ${alternative} speech mis-transcribed as ${heardAs}.
+    - "unsure" if you cannot tell, e.g. for a single word that exists in both languages.
+
+    Return JSON: { "language": string }.
+  `;
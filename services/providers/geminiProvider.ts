@@ -0,0 +1,269 @@
+import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { AIProvider, AISettings, StudentVoiceSettings } from "../../types";
+import { loadAiSettings } from "../aiSettings";
+import {
+  buildTranslationInstruction, buildGuideBookInstruction, buildCommunicationOptionsInstruction,
+  buildBackTranslationInstruction, buildFidelityInstruction, buildFidelityContent, buildLanguageIdInstruction
+} from "../prompts";
+import { readPartialJsonString } from "../partialJson";
+import { parseReply, toBackTranslation, toCommunicationOptions, toFidelityAssessment, toGuideBookResponse, toLanguage, toTranslationResponse } from "../aiReplies";
+import { AIError } from "../aiErrors";
+import { SENSITIVITY_KINDS } from "../sensitivities";
+import { HIGH_STAKES_TOPICS } from "../highStakes";
+
+// Initialize Gemini Client
+const getAiClient = (settings: AISettings) => {
+  // A key entered in Settings wins over one baked in at build time
+  const apiKey = settings.geminiApiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new AIError('no-key', "No Gemini API key configured.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Finish reasons that mean the reply was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const checkNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError('safety', `Blocked: ${blockReason || finishReason}`);
+  }
+};
+
+
+// Gemini TTS has no speed parameter; the pace is steered with a spoken-style instruction instead
+const withSpeakingStyle = (text: string, voice?: StudentVoiceSettings): string => {
+  if (!voice || Math.abs(voice.rate - 1) < 0.1) return text;
+  return `${voice.rate < 1 ? 'Say slowly and clearly' : 'Say at a brisk pace'}: ${text}`;
+};
+
+export const geminiProvider: AIProvider = {
+  translateText: async (text, teacherName, student, sender, classGroup, stream) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+    const systemInstruction = buildTranslationInstruction(teacherName, student, sender, classGroup);
+
+    // Streamed so the chat bubble can show the translation while it is being written
+    const response = await ai.models.generateContentStream({
+      model: settings.geminiModels.translation,
+      contents: text,
+      config: {
+        systemInstruction,
+        abortSignal: stream?.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            translation: { type: Type.STRING, description: "The translated or adapted message." },
+            culturalNote: { type: Type.STRING, description: "Explanation or insight." },
+            highStakesTopics: {
+              type: Type.ARRAY,
+              description: "High-stakes topics the message is about.",
+              items: { type: Type.STRING, enum: Object.keys(HIGH_STAKES_TOPICS) }
+            },
+            possibleDisclosure: { type: Type.STRING, description: "Student messages only: what may have been disclosed, or empty." }
+          },
+          required: ["translation"],
+          // The translation has to come first for it to be shown progressively
+          propertyOrdering: ["translation", "culturalNote", "highStakesTopics", "possibleDisclosure"]
+        }
+      }
+    });
+
+    let jsonText = "";
+    for await (const chunk of response) {
+      checkNotBlocked(chunk);
+      jsonText += chunk.text || "";
+      const partial = readPartialJsonString(jsonText, 'translation');
+      if (partial !== undefined) stream?.onPartial?.(partial);
+    }
+
+    return toTranslationResponse(parseReply(jsonText));
+  },
+
+  generateSpeech: async (text, voice) => {
+    const settings = loadAiSettings();
+
+    try {
+      const ai = getAiClient(settings);
+      const response = await ai.models.generateContent({
+        model: settings.geminiModels.speech,
+        contents: [{ parts: [{ text: withSpeakingStyle(text, voice) }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice?.geminiVoice || settings.geminiVoice },
+            },
+          },
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      return base64Audio || null;
+    } catch (error) {
+      console.error("Gemini TTS Error:", error);
+      return null;
+    }
+  },
+
+  generateGuideBook: async (student, chats) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+    const systemInstruction = buildGuideBookInstruction(student, chats);
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModels.guideBook,
+      contents: "Analyze profile and chats.",
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            guide: { type: Type.STRING, description: "Markdown formatted guide book." },
+            proposedChanges: {
+              type: Type.ARRAY,
+              description: "Changes to the student's needs, for the teacher to review.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  action: { type: Type.STRING, enum: ["add", "remove"] },
+                  kind: { type: Type.STRING, enum: Object.keys(SENSITIVITY_KINDS) },
+                  notes: { type: Type.STRING },
+                  evidence: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Chat lines quoted exactly." }
+                },
+                required: ["action", "kind", "notes", "evidence"]
+              }
+            }
+          },
+          required: ["guide", "proposedChanges"]
+        }
+      }
+    });
+
+    checkNotBlocked(response);
+    return toGuideBookResponse(parseReply(response.text));
+  },
+
+  generateCommunicationOptions: async (intent, teacherName, student, chats, classGroup) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+    const systemInstruction = buildCommunicationOptionsInstruction(teacherName, student, chats, classGroup);
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModels.options,
+      contents: `Teacher Intent: "${intent}"`,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            options: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING, description: "Unique ID (1, 2, 3)" },
+                  strategy: { type: Type.STRING, description: "Strategy label" },
+                  englishText: { type: Type.STRING, description: "The message in English" },
+                  translatedText: { type: Type.STRING, description: "The message in target language/adaptation" },
+                  reasoning: { type: Type.STRING, description: "Why this works" }
+                },
+                required: ["id", "strategy", "englishText", "translatedText", "reasoning"]
+              }
+            }
+          }
+        }
+      }
+    });
+
+    checkNotBlocked(response);
+    return toCommunicationOptions(parseReply(response.text));
+  },
+
+  backTranslate: async (text, language) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModels.translation,
+      contents: text,
+      config: {
+        systemInstruction: buildBackTranslationInstruction(language),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            backTranslation: { type: Type.STRING, description: "Literal English translation." }
+          },
+          required: ["backTranslation"]
+        }
+      }
+    });
+
+    checkNotBlocked(response);
+    return toBackTranslation(parseReply(response.text));
+  },
+
+  assessFidelity: async (original, backTranslation) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModels.translation,
+      contents: buildFidelityContent(original, backTranslation),
+      config: {
+        systemInstruction: buildFidelityInstruction(),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            driftScore: { type: Type.NUMBER, description: "0 = same meaning, 100 = unrelated." },
+            divergences: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["driftScore", "divergences"]
+        }
+      }
+    });
+
+    checkNotBlocked(response);
+    return toFidelityAssessment(parseReply(response.text));
+  },
+
+  identifyLanguage: async (transcript, heardAs, alternative) => {
+    const settings = loadAiSettings();
+    const ai = getAiClient(settings);
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModels.translation,
+      contents: transcript,
+      config: {
+        systemInstruction: buildLanguageIdInstruction(heardAs, alternative),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            language: { type: Type.STRING, enum: [heardAs, alternative, 'unsure'] }
+          },
+          required: ["language"]
+        }
+      }
+    });
+
+    checkNotBlocked(response);
+    return toLanguage(parseReply(response.text));
+  },
+
+  testConnection: async (settings) => {
+    const ai = getAiClient(settings);
+    // Cheapest possible round trip that still proves the key and model are valid
+    await ai.models.generateContent({
+      model: settings.geminiModels.translation,
+      contents: "Reply with OK."
+    });
+  }
+};
@@ -0,0 +1,86 @@
+import { AIProvider } from "../../types";
+import { detectHighStakesTopics } from "../highStakes";
+
+// Deterministic, offline backend for demos and staff training.
+// The same input always produces the same output and no network calls are made.
+
+const DEMO_NOTE = "Demo mode: simulated response, no AI service was contacted.";
+
+export const mockProvider: AIProvider = {
+  translateText: async (text, teacherName, student, sender, classGroup, stream) => {
+    const translation = sender === 'teacher' ? `[${student.language}] ${text}` : `[English] ${text}`;
+
+    // Reveal the reply word by word so progressive rendering can be demonstrated
+    const words = translation.split(' ');
+    for (let i = 1; i <= words.length; i++) {
+      if (stream?.signal?.aborted) throw new DOMException('The translation was cancelled.', 'AbortError');
+      stream?.onPartial?.(words.slice(0, i).join(' '));
+      await new Promise(resolve => setTimeout(resolve, 60));
+    }
+
+    return { translation, culturalNote: DEMO_NOTE, highStakesTopics: detectHighStakesTopics(text) };
+  },
+
+  // No audio in demo mode; the caller falls back to the browser's voice
+  generateSpeech: async () => null,
+
+  generateGuideBook: async (student, chats) => {
+    const teacherCount = chats.filter(c => c.sender === 'teacher').length;
+    const studentCount = chats.length - teacherCount;
+    // One suggestion, so the review queue can be demonstrated
+    const lastStudentMessage = [...chats].reverse().find(c => c.sender === 'student' && !c.status);
+    return {
+      guide: `## Communication Style
+${student.name} (${student.age} yrs, ${student.language}) has exchanged ${chats.length} messages with you: ${teacherCount} from you and ${studentCount} from ${student.name}.
+
+## Engagement Tips
+- Keep instructions short and concrete.
+- Check understanding privately rather than in front of the class.
+
+_${DEMO_NOTE}_`,
+      proposedChanges: lastStudentMessage ? [{
+        action: 'add',
+        kind: 'other',
+        notes: `Demo suggestion: check in privately after ${student.name} shares something`,
+        evidence: [lastStudentMessage.originalText]
+      }] : []
+    };
+  },
+
+  generateCommunicationOptions: async (intent, teacherName, student) => [
+    {
+      id: '1',
+      strategy: 'Direct & Gentle',
+      englishText: intent,
+      translatedText: `[${student.language}] ${intent}`,
+      reasoning: `A clear, calm statement of what ${teacherName} needs. ${DEMO_NOTE}`
+    },
+    {
+      id: '2',
+      strategy: 'Choice-Based',
+      englishText: `Would you like to ${intent.toLowerCase()} now or in two minutes?`,
+      translatedText: `[${student.language}] Would you like to ${intent.toLowerCase()} now or in two minutes?`,
+      reasoning: `Offering a choice gives ${student.name} a sense of control. ${DEMO_NOTE}`
+    },
+    {
+      id: '3',
+      strategy: 'Collaborative',
+      englishText: `Let's do this together: ${intent}`,
+      translatedText: `[${student.language}] Let's do this together: ${intent}`,
+      reasoning: `Framing the request as teamwork lowers pressure. ${DEMO_NOTE}`
+    }
+  ],
+
+  // Mock translations only prefix the English, so removing the prefix gives it back unchanged
+  backTranslate: async (text) => text.replace(/^\[[^\]]*\]\s*/, ''),
+
+  assessFidelity: async (original, backTranslation) =>
+    original.trim().toLowerCase() === backTranslation.trim().toLowerCase()
+      ? { driftScore: 0, divergences: [] }
+      : { driftScore: 40, divergences: [`The wording differs from the original. ${DEMO_NOTE}`] },
+
+  // Demo replies cannot tell languages apart; conversation mode then asks the teacher to tap
+  identifyLanguage: async () => null,
+
+  testConnection: async () => {}
+};
@@ -0,0 +1,260 @@
+import { AIProvider, AISettings, AITask } from "../../types";
+import { loadAiSettings } from "../aiSettings";
+import {
+  buildTranslationInstruction, buildGuideBookInstruction, buildCommunicationOptionsInstruction,
+  buildBackTranslationInstruction, buildFidelityInstruction, buildFidelityContent, buildLanguageIdInstruction
+} from "../prompts";
+import { readPartialJsonString } from "../partialJson";
+import { parseReply, toBackTranslation, toCommunicationOptions, toFidelityAssessment, toGuideBookResponse, toLanguage, toTranslationResponse } from "../aiReplies";
+import { AIError, errorKindForStatus } from "../aiErrors";
+import { isObject } from "../guards";
+
+// Talks to any server exposing the OpenAI Chat Completions API
+// (Ollama, LM Studio, vLLM, LocalAI, Azure OpenAI proxies, ...).
+
+const getEndpoint = (settings: AISettings, path: string) => {
+  if (!settings.openAiBaseUrl) {
+    throw new AIError('no-key', "No base URL configured for the OpenAI-compatible provider");
+  }
+  return `${settings.openAiBaseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+const getHeaders = (settings: AISettings): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.openAiApiKey) {
+    headers['Authorization'] = `Bearer ${settings.openAiApiKey}`;
+  }
+  return headers;
+};
+
+const requestFailed = (response: Response) =>
+  new AIError(errorKindForStatus(response.status), `OpenAI-compatible request failed: ${response.status} ${response.statusText}`);
+
+const checkNotFiltered = (finishReason: string | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new AIError('safety', "Blocked by the server's content filter");
+  }
+};
+
+
+// Chat Completions has no response schema, so the expected shape is spelled out in the prompt
+const buildChatRequest = (settings: AISettings, task: AITask, systemInstruction: string, shape: string, userContent: string) => ({
+  model: settings.openAiModels[task],
+  response_format: { type: 'json_object' },
+  messages: [
+    { role: 'system', content: `${systemInstruction}\nRespond ONLY with a JSON object of this shape: ${shape}` },
+    { role: 'user', content: userContent }
+  ]
+});
+
+// Content of the first choice of a non-streamed reply
+const readMessageContent = (body: unknown): string => {
+  const choice: unknown = isObject(body) && Array.isArray(body.choices) ? body.choices[0] : undefined;
+  if (!isObject(choice)) {
+    throw new AIError('bad-response', "Reply has no choices");
+  }
+  checkNotFiltered(typeof choice.finish_reason === 'string' ? choice.finish_reason : undefined);
+  if (!isObject(choice.message) || typeof choice.message.content !== 'string') {
+    throw new AIError('bad-response', "Reply has no message content");
+  }
+  return choice.message.content;
+};
+
+const completeJson = async (
+  settings: AISettings,
+  task: AITask,
+  systemInstruction: string,
+  shape: string,
+  userContent: string
+): Promise<string> => {
+  const response = await fetch(getEndpoint(settings, '/chat/completions'), {
+    method: 'POST',
+    headers: getHeaders(settings),
+    body: JSON.stringify(buildChatRequest(settings, task, systemInstruction, shape, userContent))
+  });
+
+  if (!response.ok) {
+    throw requestFailed(response);
+  }
+
+  return readMessageContent(await response.json());
+};
+
+// Like completeJson, but streamed as server-sent events. `onText` receives the content so far.
+const streamJson = async (
+  settings: AISettings,
+  task: AITask,
+  systemInstruction: string,
+  shape: string,
+  userContent: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await fetch(getEndpoint(settings, '/chat/completions'), {
+    method: 'POST',
+    headers: getHeaders(settings),
+    signal,
+    body: JSON.stringify({ ...buildChatRequest(settings, task, systemInstruction, shape, userContent), stream: true })
+  });
+
+  if (!response.ok) {
+    throw requestFailed(response);
+  }
+
+  // Some servers ignore `stream` and answer with a single JSON body
+  if (!response.body || !(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    return readMessageContent(await response.json());
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by newlines; the last line may still be incomplete
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch (e) {
+        continue; // Keep-alive comments and malformed events carry no content
+      }
+      const choice: unknown = isObject(event) && Array.isArray(event.choices) ? event.choices[0] : undefined;
+      if (!isObject(choice)) continue;
+      checkNotFiltered(typeof choice.finish_reason === 'string' ? choice.finish_reason : undefined);
+      if (isObject(choice.delta) && typeof choice.delta.content === 'string' && choice.delta.content) {
+        content += choice.delta.content;
+        onText(content);
+      }
+    }
+  }
+  return content;
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const openAiCompatibleProvider: AIProvider = {
+  translateText: async (text, teacherName, student, sender, classGroup, stream) => {
+    const systemInstruction = buildTranslationInstruction(teacherName, student, sender, classGroup);
+    const jsonText = await streamJson(
+      loadAiSettings(),
+      'translation',
+      systemInstruction,
+      sender === 'student'
+        ? '{ "translation": string, "culturalNote": string, "highStakesTopics": string[], "possibleDisclosure": string }'
+        : '{ "translation": string, "culturalNote": string, "highStakesTopics": string[] }',
+      text,
+      (content) => {
+        const partial = readPartialJsonString(content, 'translation');
+        if (partial !== undefined) stream?.onPartial?.(partial);
+      },
+      stream?.signal
+    );
+    return toTranslationResponse(parseReply(jsonText));
+  },
+
+  // Per-student Gemini voice names mean nothing here; only the speed is passed on
+  generateSpeech: async (text, voice) => {
+    const settings = loadAiSettings();
+    try {
+      // "pcm" is raw 16-bit 24kHz mono, the same format playGeminiAudio expects
+      const response = await fetch(getEndpoint(settings, '/audio/speech'), {
+        method: 'POST',
+        headers: getHeaders(settings),
+        body: JSON.stringify({
+          model: settings.openAiModels.speech,
+          voice: settings.openAiVoice,
+          input: text,
+          speed: voice?.rate ?? 1,
+          response_format: 'pcm'
+        })
+      });
+      if (!response.ok) return null;
+      return arrayBufferToBase64(await response.arrayBuffer());
+    } catch (error) {
+      // Most local servers have no speech endpoint; the caller falls back to browser TTS
+      console.error("OpenAI-compatible TTS Error:", error);
+      return null;
+    }
+  },
+
+  generateGuideBook: async (student, chats) => {
+    const systemInstruction = buildGuideBookInstruction(student, chats);
+    const jsonText = await completeJson(
+      loadAiSettings(),
+      'guideBook',
+      systemInstruction,
+      '{ "guide": string (Markdown), "proposedChanges": [{ "action": "add" | "remove", "kind": string, "notes": string, "evidence": string[] }] }',
+      "Analyze profile and chats."
+    );
+    return toGuideBookResponse(parseReply(jsonText));
+  },
+
+  generateCommunicationOptions: async (intent, teacherName, student, chats, classGroup) => {
+    const systemInstruction = buildCommunicationOptionsInstruction(teacherName, student, chats, classGroup);
+    const jsonText = await completeJson(
+      loadAiSettings(),
+      'options',
+      systemInstruction,
+      '{ "options": [{ "id": string, "strategy": string, "englishText": string, "translatedText": string, "reasoning": string }] }',
+      `Teacher Intent: "${intent}"`
+    );
+    return toCommunicationOptions(parseReply(jsonText));
+  },
+
+  backTranslate: async (text, language) => {
+    const jsonText = await completeJson(
+      loadAiSettings(),
+      'translation',
+      buildBackTranslationInstruction(language),
+      '{ "backTranslation": string }',
+      text
+    );
+    return toBackTranslation(parseReply(jsonText));
+  },
+
+  assessFidelity: async (original, backTranslation) => {
+    const jsonText = await completeJson(
+      loadAiSettings(),
+      'translation',
+      buildFidelityInstruction(),
+      '{ "driftScore": number, "divergences": string[] }',
+      buildFidelityContent(original, backTranslation)
+    );
+    return toFidelityAssessment(parseReply(jsonText));
+  },
+
+  identifyLanguage: async (transcript, heardAs, alternative) => {
+    const jsonText = await completeJson(
+      loadAiSettings(),
+      'translation',
+      buildLanguageIdInstruction(heardAs, alternative),
+      `{ "language": "${heardAs}" | "${alternative}" | "unsure" }`,
+      transcript
+    );
+    return toLanguage(parseReply(jsonText));
+  },
+
+  testConnection: async (settings) => {
+    // Listing models is supported by every compatible server and costs nothing
+    const response = await fetch(getEndpoint(settings, '/models'), { headers: getHeaders(settings) });
+    if (!response.ok) {
+      throw requestFailed(response);
+    }
+  }
+};
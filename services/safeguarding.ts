@@ -0,0 +1,28 @@
+import { SafeguardingSettings } from '../types';
+
+// Safeguarding layer for student messages. A message is treated as a possible disclosure when
+// the AI says so while translating it, or when the English side matches the keywords below.
+// Detection is deliberately over-cautious: a false alarm costs the teacher a minute, a missed
+// disclosure can cost a child far more.
+
+export const DEFAULT_SAFEGUARDING_SETTINGS: SafeguardingSettings = {
+  leadName: '',
+  leadContact: '',
+  escalationSteps: [
+    'Stay calm and listen. Do not ask leading questions or investigate.',
+    'Do not promise to keep it secret; explain that you may need to tell someone who can help.',
+    'If the student is in immediate danger, call the emergency services.',
+    'Tell the designated safeguarding lead (DSL) straight away, and in any case before the student leaves school today.',
+    'Write down what was said in the student\'s own words, with the time. The incident record here is a start, not a replacement for your school\'s form.'
+  ]
+};
+
+const DISCLOSURE_KEYWORDS = /\b(hits? me|hurts? me|beats? me|kicks? me|touch(es|ed|ing)? me|scared (of|to go) (home|him|her|my)|not safe at home|unsafe at home|don'?t want to go home|no food at home|locked (me )?in|burns? me|marks on my|secret (touching|games?)|abus(e|ed|ing)|neglect(ed)?|self[- ]harm|hurt(ing)? myself|cut(ting)? myself|kill (my|him|her)self|want to die|suicid(e|al)|run away from home|forced (to|marriage)|sent (me )?pictures|grooming)\b/i;
+
+// Why a student message may be a disclosure, or null. `aiReason` is the translation's
+// possibleDisclosure field, which is model output and may be missing or not a text.
+export const detectDisclosure = (originalText: string, translatedText: string, aiReason: unknown): string | null => {
+  if (typeof aiReason === 'string' && aiReason.trim()) return aiReason.trim();
+  const matched = [translatedText, originalText].map(text => text.match(DISCLOSURE_KEYWORDS)?.[0]).find(Boolean);
+  return matched ? `Mentions "${matched}"` : null;
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceType } from '../types';
+import { SCHEMA_VERSION, SchemaError, detectSchemaVersion, upgradeAppData, validateAppData } from './schema';
+
+const LEGACY_PROFILE = {
+  teacherName: 'Ms Rivera',
+  childName: 'Ana',
+  childLanguage: 'Portuguese',
+  childAge: 9,
+  sensitivities: '  Takes things literally  '
+};
+
+const VERSION_1 = {
+  teacherName: 'Ms Rivera',
+  preferredVoice: VoiceType.AI,
+  currentStudentId: 's1',
+  students: [
+    { id: 's1', name: 'Ana', language: 'Portuguese', age: 9, sensitivities: 'Dislikes loud noises', guideBook: 'Use short sentences.' },
+    { id: 's2', name: 'Sam', language: 'English', age: 10, sensitivities: '' }
+  ],
+  chats: {
+    s1: [
+      { id: 'm1', originalText: 'Hello', translatedText: 'Olá', timestamp: 1, sender: 'teacher' },
+      { id: 'm2', originalText: 'Sit down', translatedText: "Sorry, I couldn't process that.", timestamp: 2, sender: 'teacher' }
+    ]
+  }
+};
+
+const expectSchemaError = (run: () => unknown, message: RegExp) => {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(SchemaError);
+    expect((e as SchemaError).message).toMatch(message);
+    return e as SchemaError;
+  }
+  throw new Error('Expected a SchemaError');
+};
+
+describe('detectSchemaVersion', () => {
+  it('tells the legacy formats apart by their fields', () => {
+    expect(detectSchemaVersion(LEGACY_PROFILE)).toBe(0);
+    expect(detectSchemaVersion(VERSION_1)).toBe(1);
+    expect(detectSchemaVersion({ ...VERSION_1, schemaVersion: 4 })).toBe(4);
+  });
+
+  it('rejects data that is not app data', () => {
+    expectSchemaError(() => detectSchemaVersion([]), /not a JSON object/);
+    expectSchemaError(() => detectSchemaVersion({ name: 'something else' }), /does not look like/);
+    expectSchemaError(() => detectSchemaVersion({ schemaVersion: '3' }), /Unknown schema version/);
+    expectSchemaError(() => detectSchemaVersion({ schemaVersion: 1.5 }), /Unknown schema version/);
+  });
+});
+
+describe('upgradeAppData', () => {
+  it('upgrades the single-profile format to the current schema', () => {
+    const data = upgradeAppData(LEGACY_PROFILE);
+
+    expect(data.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(data.teacherName).toBe('Ms Rivera');
+    expect(data.currentStudentId).toBe('migrated_student');
+    expect(data.students).toHaveLength(1);
+    const [student] = data.students;
+    expect(student).toMatchObject({ id: 'migrated_student', name: 'Ana', language: 'Portuguese', age: 9, mode: 'translate' });
+    expect(student.sensitivities).toEqual([
+      { id: 'migrated_student_migrated', kind: 'other', notes: 'Takes things literally', source: 'teacher' }
+    ]);
+    expect(student.history).toHaveLength(1);
+    expect(student.history?.[0]).toMatchObject({ source: 'migrated', guideBook: '', sensitivities: student.sensitivities });
+    expect(data.chats).toEqual({ migrated_student: [] });
+    expect(data).toMatchObject({ classes: [], activeClassId: '', outbox: [], checkFidelity: false, incidentLog: [] });
+  });
+
+  it('marks legacy error texts as failed translations and sets the audio flag', () => {
+    const data = upgradeAppData(VERSION_1);
+    const [ok, failed] = data.chats.s1;
+
+    expect(ok).toMatchObject({ translatedText: 'Olá', isLoadingAudio: false });
+    expect(ok.status).toBeUndefined();
+    expect(failed).toMatchObject({ translatedText: '', status: 'failed', errorKind: 'unknown', isLoadingAudio: false });
+  });
+
+  it('turns free-text sensitivities into tags and picks the communication mode from the language', () => {
+    const [ana, sam] = upgradeAppData(VERSION_1).students;
+
+    expect(ana.sensitivities).toEqual([{ id: 's1_migrated', kind: 'other', notes: 'Dislikes loud noises', source: 'teacher' }]);
+    expect(ana.mode).toBe('translate');
+    expect(ana.history?.[0]).toMatchObject({ source: 'migrated', guideBook: 'Use short sentences.' });
+    expect(sam.sensitivities).toEqual([]);
+    expect(sam.mode).toBe('adapt');
+    expect(sam.history).toEqual([]);
+  });
+
+  it('leaves valid current data unchanged', () => {
+    const current = upgradeAppData(VERSION_1);
+    expect(upgradeAppData(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+
+  it('refuses data from a newer version', () => {
+    expectSchemaError(() => upgradeAppData({ ...VERSION_1, schemaVersion: SCHEMA_VERSION + 1 }), /newer version/);
+  });
+
+  it('lists where invalid data is wrong', () => {
+    const broken = {
+      ...VERSION_1,
+      students: [{ ...VERSION_1.students[0], age: 'nine' }, VERSION_1.students[0]],
+      chats: { ...VERSION_1.chats, ghost: [] }
+    };
+    const error = expectSchemaError(() => upgradeAppData(broken), /not valid/);
+
+    expect(error.issues).toEqual(expect.arrayContaining([
+      { path: 'students[0].age', message: 'must be a number' },
+      { path: 'students[1].id', message: 'duplicate id "s1"' },
+      { path: 'chats.ghost', message: 'belongs to no student' }
+    ]));
+  });
+});
+
+describe('validateAppData', () => {
+  it('rejects a class that names an unknown student', () => {
+    const data = { ...upgradeAppData(VERSION_1), classes: [{ id: 'c1', name: 'Period 3', studentIds: ['s1', 'nobody'] }] };
+    expect(validateAppData(data)).toEqual([{ path: 'classes[0].studentIds[1]', message: 'unknown student "nobody"' }]);
+  });
+});
@@ -0,0 +1,505 @@
+import { AppData, VoiceType } from '../types';
+import { isSensitivityKind } from './sensitivities';
+import { isHighStakesTopic } from './highStakes';
+import { DEFAULT_SAFEGUARDING_SETTINGS } from './safeguarding';
+import { createMigratedRevision } from './profileHistory';
+import { isObject } from './guards';
+
+// Versioned AppData schema.
+// Every stored or imported data set is identified by version, upgraded one step at a
+// time through MIGRATIONS and then validated before the app trusts it.
+//
+// Version history:
+//   0 - Single student profile saved under "teacher_aid_profile" (first release)
+//   1 - Multi-student AppData without a version field
+//   2 - AppData with an explicit schemaVersion
+//   3 - Classes/periods with rosters and an active class
+//   4 - Failed translations marked with status "failed" instead of an error text
+//   5 - Outbox of messages written offline
+//   6 - Student sensitivities stored as structured tags instead of one text
+//   7 - Explicit communication mode per student
+//   8 - Back-translation fidelity check setting
+//   9 - Safeguarding settings and incident log
+//  10 - Revision history of each student's guidebook and sensitivities
+
+export const SCHEMA_VERSION = 10;
+
+const COMMUNICATION_MODES = ['translate', 'adapt', 'translate-and-adapt'];
+
+// Texts that older versions saved as if they were translations
+const LEGACY_ERROR_TEXTS = ["Sorry, I couldn't process that.", "Error processing message."];
+
+const AI_ERROR_KINDS = ['no-key', 'quota', 'network', 'safety', 'bad-response', 'unknown'];
+
+export interface ValidationIssue {
+  path: string; // e.g. "students[2].age" or "chats.abc123[4].sender"
+  message: string;
+}
+
+export class SchemaError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'SchemaError';
+    this.issues = issues;
+  }
+}
+
+// Human readable reason, limited to the first few issues
+export const describeSchemaError = (error: SchemaError, maxIssues: number = 3): string => {
+  if (error.issues.length === 0) return error.message;
+  const listed = error.issues.slice(0, maxIssues).map(issue => `${issue.path}: ${issue.message}`);
+  const remaining = error.issues.length - listed.length;
+  return `${error.message}\n${listed.join('\n')}${remaining > 0 ? `\n...and ${remaining} more` : ''}`;
+};
+
+// --- Migrations ---
+
+type RawData = Record<string, unknown>;
+
+// Applies `update` to every stored message, leaving anything that is not a message untouched
+const mapMessages = (chats: unknown, update: (message: RawData) => RawData) =>
+  Object.fromEntries(Object.entries(isObject(chats) ? chats : {}).map(([studentId, chat]) => [
+    studentId,
+    Array.isArray(chat) ? chat.map((m: unknown) => isObject(m) ? update(m) : m) : chat
+  ]));
+
+const mapStudents = (students: unknown, update: (student: RawData) => RawData) =>
+  Array.isArray(students) ? students.map((s: unknown) => isObject(s) ? update(s) : s) : students;
+
+// Keyed by the version they upgrade FROM
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  0: (legacy) => {
+    const studentId = 'migrated_student';
+    return {
+      teacherName: legacy.teacherName || 'Teacher',
+      preferredVoice: legacy.preferredVoice || VoiceType.AI,
+      students: [{
+        id: studentId,
+        name: legacy.childName || 'Student',
+        language: legacy.childLanguage || 'Spanish',
+        age: legacy.childAge || 7,
+        sensitivities: legacy.sensitivities || ''
+      }],
+      currentStudentId: studentId,
+      chats: { [studentId]: [] }
+    };
+  },
+  1: (data) => ({
+    ...data,
+    schemaVersion: 2,
+    // Audio loading flags were optional in practice; make them explicit
+    chats: mapMessages(data.chats, m => ({ ...m, isLoadingAudio: false }))
+  }),
+  2: (data) => ({
+    ...data,
+    schemaVersion: 3,
+    classes: [],
+    activeClassId: ''
+  }),
+  3: (data) => ({
+    ...data,
+    schemaVersion: 4,
+    chats: mapMessages(data.chats, m => typeof m.translatedText === 'string' && LEGACY_ERROR_TEXTS.includes(m.translatedText)
+      ? { ...m, translatedText: '', status: 'failed', errorKind: 'unknown' }
+      : m)
+  }),
+  4: (data) => ({
+    ...data,
+    schemaVersion: 5,
+    outbox: []
+  }),
+  5: (data) => ({
+    ...data,
+    schemaVersion: 6,
+    // Free text cannot be split reliably, so it is kept whole for the teacher to sort into tags
+    students: mapStudents(data.students, s => typeof s.sensitivities === 'string' ? {
+      ...s,
+      sensitivities: s.sensitivities.trim()
+        ? [{ id: `${s.id}_migrated`, kind: 'other', notes: s.sensitivities.trim(), source: 'teacher' }]
+        : []
+    } : s)
+  }),
+  6: (data) => ({
+    ...data,
+    schemaVersion: 7,
+    // Earlier versions treated every English-speaking student as neurodivergent and everyone else as ESL
+    students: mapStudents(data.students, s => ({
+      ...s,
+      mode: typeof s.language === 'string' && s.language.toLowerCase().includes('english') ? 'adapt' : 'translate'
+    }))
+  }),
+  7: (data) => ({
+    ...data,
+    schemaVersion: 8,
+    checkFidelity: false
+  }),
+  8: (data) => ({
+    ...data,
+    schemaVersion: 9,
+    safeguarding: DEFAULT_SAFEGUARDING_SETTINGS,
+    incidentLog: []
+  }),
+  9: (data) => ({
+    ...data,
+    schemaVersion: 10,
+    // The current profile becomes the first revision, so the first change can be rolled back
+    students: mapStudents(data.students, s => ({ ...s, history: createMigratedRevision(s) }))
+  })
+};
+
+export const detectSchemaVersion = (raw: unknown): number => {
+  if (!isObject(raw)) {
+    throw new SchemaError("The data is not a JSON object.");
+  }
+  if (raw.schemaVersion !== undefined) {
+    if (typeof raw.schemaVersion !== 'number' || !Number.isInteger(raw.schemaVersion) || raw.schemaVersion < 0) {
+      throw new SchemaError(`Unknown schema version "${raw.schemaVersion}".`);
+    }
+    return raw.schemaVersion;
+  }
+  if ('students' in raw || 'chats' in raw) return 1;
+  if ('childName' in raw || 'childLanguage' in raw) return 0;
+  throw new SchemaError("This does not look like Teacher's Aid data.");
+};
+
+// --- Validation ---
+
+const isOneOf = (value: unknown, options: readonly string[]) =>
+  typeof value === 'string' && options.includes(value);
+
+const checkString = (value: unknown, path: string, issues: ValidationIssue[], optional = false) => {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'string') issues.push({ path, message: optional ? 'must be text if present' : 'must be text' });
+};
+
+const checkNumber = (value: unknown, path: string, issues: ValidationIssue[], optional = false) => {
+  if (optional && value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: optional ? 'must be a number if present' : 'must be a number' });
+  }
+};
+
+const validateSensitivityTags = (tags: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!Array.isArray(tags)) {
+    issues.push({ path, message: 'must be a list' });
+    return;
+  }
+  tags.forEach((tag: unknown, index: number) => {
+    const tagPath = `${path}[${index}]`;
+    if (!isObject(tag)) {
+      issues.push({ path: tagPath, message: 'must be an object' });
+      return;
+    }
+    checkString(tag.id, `${tagPath}.id`, issues);
+    if (!isSensitivityKind(tag.kind)) issues.push({ path: `${tagPath}.kind`, message: 'unknown kind' });
+    checkString(tag.notes, `${tagPath}.notes`, issues);
+    if (tag.source !== 'teacher' && tag.source !== 'ai') {
+      issues.push({ path: `${tagPath}.source`, message: 'must be "teacher" or "ai"' });
+    }
+  });
+};
+
+export const validateStudentProfile = (student: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isObject(student)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkString(student.id, `${path}.id`, issues);
+  if (student.id === '') issues.push({ path: `${path}.id`, message: 'must not be empty' });
+  checkString(student.name, `${path}.name`, issues);
+  checkString(student.language, `${path}.language`, issues);
+  checkNumber(student.age, `${path}.age`, issues);
+  if (!isOneOf(student.mode, COMMUNICATION_MODES)) {
+    issues.push({ path: `${path}.mode`, message: `must be one of ${COMMUNICATION_MODES.join(', ')}` });
+  }
+  validateSensitivityTags(student.sensitivities, `${path}.sensitivities`, issues);
+  if (student.voice !== undefined) {
+    if (!isObject(student.voice)) {
+      issues.push({ path: `${path}.voice`, message: 'must be an object if present' });
+    } else {
+      checkString(student.voice.geminiVoice, `${path}.voice.geminiVoice`, issues, true);
+      checkString(student.voice.localVoiceURI, `${path}.voice.localVoiceURI`, issues, true);
+      checkNumber(student.voice.rate, `${path}.voice.rate`, issues);
+      checkNumber(student.voice.pitch, `${path}.voice.pitch`, issues);
+      checkNumber(student.voice.volume, `${path}.voice.volume`, issues);
+    }
+  }
+  checkString(student.guideBook, `${path}.guideBook`, issues, true);
+  checkNumber(student.lastAnalyzedIndex, `${path}.lastAnalyzedIndex`, issues, true);
+  if (student.history !== undefined) {
+    if (!Array.isArray(student.history)) {
+      issues.push({ path: `${path}.history`, message: 'must be a list if present' });
+    } else {
+      student.history.forEach((revision: unknown, index: number) => {
+        const revisionPath = `${path}.history[${index}]`;
+        if (!isObject(revision)) {
+          issues.push({ path: revisionPath, message: 'must be an object' });
+          return;
+        }
+        checkString(revision.id, `${revisionPath}.id`, issues);
+        checkNumber(revision.timestamp, `${revisionPath}.timestamp`, issues);
+        if (!isOneOf(revision.source, ['teacher', 'ai', 'migrated'])) {
+          issues.push({ path: `${revisionPath}.source`, message: 'must be "teacher", "ai" or "migrated"' });
+        }
+        checkString(revision.guideBook, `${revisionPath}.guideBook`, issues);
+        validateSensitivityTags(revision.sensitivities, `${revisionPath}.sensitivities`, issues);
+        checkString(revision.restoredFrom, `${revisionPath}.restoredFrom`, issues, true);
+      });
+    }
+  }
+  if (student.pendingChanges !== undefined) {
+    if (!Array.isArray(student.pendingChanges)) {
+      issues.push({ path: `${path}.pendingChanges`, message: 'must be a list if present' });
+    } else {
+      student.pendingChanges.forEach((change: unknown, index: number) => {
+        const changePath = `${path}.pendingChanges[${index}]`;
+        if (!isObject(change)) {
+          issues.push({ path: changePath, message: 'must be an object' });
+          return;
+        }
+        checkString(change.id, `${changePath}.id`, issues);
+        if (change.action !== 'add' && change.action !== 'remove') {
+          issues.push({ path: `${changePath}.action`, message: 'must be "add" or "remove"' });
+        }
+        if (!isSensitivityKind(change.kind)) issues.push({ path: `${changePath}.kind`, message: 'unknown kind' });
+        checkString(change.notes, `${changePath}.notes`, issues);
+        checkString(change.tagId, `${changePath}.tagId`, issues, true);
+        if (!Array.isArray(change.evidence) || change.evidence.some((line: unknown) => typeof line !== 'string')) {
+          issues.push({ path: `${changePath}.evidence`, message: 'must be a list of texts' });
+        }
+        checkNumber(change.proposedAt, `${changePath}.proposedAt`, issues);
+      });
+    }
+  }
+};
+
+export const validateChatMessage = (message: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isObject(message)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkString(message.id, `${path}.id`, issues);
+  checkString(message.originalText, `${path}.originalText`, issues);
+  checkString(message.translatedText, `${path}.translatedText`, issues);
+  checkString(message.culturalNote, `${path}.culturalNote`, issues, true);
+  checkNumber(message.timestamp, `${path}.timestamp`, issues);
+  if (typeof message.isLoadingAudio !== 'boolean') {
+    issues.push({ path: `${path}.isLoadingAudio`, message: 'must be true or false' });
+  }
+  if (message.sender !== 'teacher' && message.sender !== 'student') {
+    issues.push({ path: `${path}.sender`, message: 'must be "teacher" or "student"' });
+  }
+  checkString(message.strategy, `${path}.strategy`, issues, true);
+  checkString(message.reasoning, `${path}.reasoning`, issues, true);
+  if (message.status !== undefined && message.status !== 'failed' && message.status !== 'pending') {
+    issues.push({ path: `${path}.status`, message: 'must be "failed" or "pending" if present' });
+  }
+  if (message.errorKind !== undefined && !isOneOf(message.errorKind, AI_ERROR_KINDS)) {
+    issues.push({ path: `${path}.errorKind`, message: `must be one of ${AI_ERROR_KINDS.join(', ')}` });
+  }
+  if (message.checkMeaning !== undefined && typeof message.checkMeaning !== 'boolean') {
+    issues.push({ path: `${path}.checkMeaning`, message: 'must be true or false if present' });
+  }
+  if (message.fidelity !== undefined) {
+    if (!isObject(message.fidelity)) {
+      issues.push({ path: `${path}.fidelity`, message: 'must be an object if present' });
+    } else {
+      checkString(message.fidelity.backTranslation, `${path}.fidelity.backTranslation`, issues);
+      checkNumber(message.fidelity.driftScore, `${path}.fidelity.driftScore`, issues);
+      if (!Array.isArray(message.fidelity.divergences) || message.fidelity.divergences.some((d: unknown) => typeof d !== 'string')) {
+        issues.push({ path: `${path}.fidelity.divergences`, message: 'must be a list of texts' });
+      }
+      checkNumber(message.fidelity.checkedAt, `${path}.fidelity.checkedAt`, issues);
+    }
+  }
+  if (message.highStakes !== undefined) {
+    if (!isObject(message.highStakes)) {
+      issues.push({ path: `${path}.highStakes`, message: 'must be an object if present' });
+    } else {
+      if (!Array.isArray(message.highStakes.topics) || !message.highStakes.topics.every(isHighStakesTopic)) {
+        issues.push({ path: `${path}.highStakes.topics`, message: 'must be a list of known topics' });
+      }
+      checkNumber(message.highStakes.detectedAt, `${path}.highStakes.detectedAt`, issues);
+      checkNumber(message.highStakes.acknowledgedAt, `${path}.highStakes.acknowledgedAt`, issues, true);
+    }
+  }
+  checkString(message.safeguardingIncidentId, `${path}.safeguardingIncidentId`, issues, true);
+};
+
+// Shape only; whether the hash chain is intact is checked by verifyIncidentLog
+export const validateIncidentEntry = (entry: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isObject(entry)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkString(entry.id, `${path}.id`, issues);
+  checkString(entry.incidentId, `${path}.incidentId`, issues);
+  if (entry.type !== 'disclosure' && entry.type !== 'action') {
+    issues.push({ path: `${path}.type`, message: 'must be "disclosure" or "action"' });
+  }
+  checkNumber(entry.timestamp, `${path}.timestamp`, issues);
+  checkString(entry.studentId, `${path}.studentId`, issues);
+  checkString(entry.studentName, `${path}.studentName`, issues);
+  checkString(entry.teacherName, `${path}.teacherName`, issues);
+  ['messageId', 'language', 'originalText', 'translatedText', 'reason', 'action', 'note'].forEach(key => {
+    checkString(entry[key], `${path}.${key}`, issues, true);
+  });
+  checkString(entry.previousHash, `${path}.previousHash`, issues);
+  checkString(entry.hash, `${path}.hash`, issues);
+};
+
+export const validateClassGroup = (classGroup: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isObject(classGroup)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkString(classGroup.id, `${path}.id`, issues);
+  if (classGroup.id === '') issues.push({ path: `${path}.id`, message: 'must not be empty' });
+  checkString(classGroup.name, `${path}.name`, issues);
+  checkString(classGroup.subject, `${path}.subject`, issues, true);
+  checkString(classGroup.glossary, `${path}.glossary`, issues, true);
+  checkString(classGroup.teacherNameOverride, `${path}.teacherNameOverride`, issues, true);
+  if (!Array.isArray(classGroup.studentIds) || classGroup.studentIds.some((id: unknown) => typeof id !== 'string')) {
+    issues.push({ path: `${path}.studentIds`, message: 'must be a list of student ids' });
+  }
+};
+
+// Validates data already at SCHEMA_VERSION. `chats` may hold only some students' histories.
+export const validateAppData = (data: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(data)) {
+    return [{ path: '(root)', message: 'must be an object' }];
+  }
+
+  if (data.schemaVersion !== SCHEMA_VERSION) {
+    issues.push({ path: 'schemaVersion', message: `must be ${SCHEMA_VERSION}` });
+  }
+  checkString(data.teacherName, 'teacherName', issues);
+  if (!isOneOf(data.preferredVoice, Object.values(VoiceType))) {
+    issues.push({ path: 'preferredVoice', message: `must be one of ${Object.values(VoiceType).join(', ')}` });
+  }
+  checkString(data.currentStudentId, 'currentStudentId', issues);
+  if (typeof data.checkFidelity !== 'boolean') {
+    issues.push({ path: 'checkFidelity', message: 'must be true or false' });
+  }
+
+  const studentIds = new Set<string>();
+  if (!Array.isArray(data.students)) {
+    issues.push({ path: 'students', message: 'must be a list' });
+  } else {
+    data.students.forEach((student: unknown, index: number) => {
+      validateStudentProfile(student, `students[${index}]`, issues);
+      if (isObject(student) && typeof student.id === 'string') {
+        if (studentIds.has(student.id)) {
+          issues.push({ path: `students[${index}].id`, message: `duplicate id "${student.id}"` });
+        }
+        studentIds.add(student.id);
+      }
+    });
+  }
+
+  if (!isObject(data.chats)) {
+    issues.push({ path: 'chats', message: 'must be an object keyed by student id' });
+  } else {
+    Object.entries(data.chats).forEach(([studentId, chat]) => {
+      if (Array.isArray(data.students) && !studentIds.has(studentId)) {
+        issues.push({ path: `chats.${studentId}`, message: 'belongs to no student' });
+      }
+      if (!Array.isArray(chat)) {
+        issues.push({ path: `chats.${studentId}`, message: 'must be a list' });
+        return;
+      }
+      chat.forEach((message, index) => validateChatMessage(message, `chats.${studentId}[${index}]`, issues));
+    });
+  }
+
+  const classIds = new Set<string>();
+  if (!Array.isArray(data.classes)) {
+    issues.push({ path: 'classes', message: 'must be a list' });
+  } else {
+    data.classes.forEach((classGroup: unknown, index: number) => {
+      validateClassGroup(classGroup, `classes[${index}]`, issues);
+      if (!isObject(classGroup)) return;
+      if (typeof classGroup.id === 'string') {
+        if (classIds.has(classGroup.id)) {
+          issues.push({ path: `classes[${index}].id`, message: `duplicate id "${classGroup.id}"` });
+        }
+        classIds.add(classGroup.id);
+      }
+      if (Array.isArray(classGroup.studentIds) && Array.isArray(data.students)) {
+        classGroup.studentIds.forEach((id: unknown, i: number) => {
+          if (typeof id === 'string' && !studentIds.has(id)) {
+            issues.push({ path: `classes[${index}].studentIds[${i}]`, message: `unknown student "${id}"` });
+          }
+        });
+      }
+    });
+  }
+  checkString(data.activeClassId, 'activeClassId', issues);
+  if (typeof data.activeClassId === 'string' && data.activeClassId !== '' && Array.isArray(data.classes) && !classIds.has(data.activeClassId)) {
+    issues.push({ path: 'activeClassId', message: `unknown class "${data.activeClassId}"` });
+  }
+
+  if (!Array.isArray(data.outbox)) {
+    issues.push({ path: 'outbox', message: 'must be a list' });
+  } else {
+    data.outbox.forEach((entry: unknown, index: number) => {
+      if (!isObject(entry)) {
+        issues.push({ path: `outbox[${index}]`, message: 'must be an object' });
+        return;
+      }
+      checkString(entry.studentId, `outbox[${index}].studentId`, issues);
+      checkString(entry.messageId, `outbox[${index}].messageId`, issues);
+      if (typeof entry.studentId === 'string' && Array.isArray(data.students) && !studentIds.has(entry.studentId)) {
+        issues.push({ path: `outbox[${index}].studentId`, message: `unknown student "${entry.studentId}"` });
+      }
+    });
+  }
+
+  if (!isObject(data.safeguarding)) {
+    issues.push({ path: 'safeguarding', message: 'must be an object' });
+  } else {
+    checkString(data.safeguarding.leadName, 'safeguarding.leadName', issues);
+    checkString(data.safeguarding.leadContact, 'safeguarding.leadContact', issues);
+    if (!Array.isArray(data.safeguarding.escalationSteps) || data.safeguarding.escalationSteps.some((step: unknown) => typeof step !== 'string')) {
+      issues.push({ path: 'safeguarding.escalationSteps', message: 'must be a list of texts' });
+    }
+  }
+
+  // Entries may name students that were deleted since; the record must outlive them
+  if (!Array.isArray(data.incidentLog)) {
+    issues.push({ path: 'incidentLog', message: 'must be a list' });
+  } else {
+    data.incidentLog.forEach((entry: unknown, index: number) => validateIncidentEntry(entry, `incidentLog[${index}]`, issues));
+  }
+
+  return issues;
+};
+
+// Detects the version of raw data, runs every migration up to SCHEMA_VERSION and
+// validates the result. Throws a SchemaError explaining why the data was rejected.
+export const upgradeAppData = (raw: unknown): AppData => {
+  let version = detectSchemaVersion(raw);
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(`This data was created by a newer version of Teacher's Aid (schema ${version}). Please update the app.`);
+  }
+
+  let data = raw;
+  while (version < SCHEMA_VERSION) {
+    try {
+      if (!isObject(data)) throw new Error('Migration did not return an object');
+      data = MIGRATIONS[version](data);
+    } catch (e) {
+      throw new SchemaError(`Could not upgrade data from schema version ${version}.`);
+    }
+    version++;
+  }
+
+  const issues = validateAppData(data);
+  if (issues.length > 0) {
+    throw new SchemaError("The data is not valid.", issues);
+  }
+  return data as AppData;
+};
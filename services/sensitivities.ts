@@ -0,0 +1,90 @@
+import { SensitivityKind, SensitivityTag } from '../types';
+import { generateId } from './ids';
+
+// Structured needs model for a student. Each tag has a kind, free notes and records whether
+// the teacher or the AI added it. Prompts are built from the tags, so the AI gets explicit
+// instructions for e.g. PDA instead of having to spot it in a paragraph of prose.
+
+interface SensitivityKindInfo {
+  label: string;
+  placeholder: string; // Example notes for the editor
+  guidance?: string; // Instruction added to prompts whenever the student has this tag
+}
+
+export const SENSITIVITY_KINDS: Record<SensitivityKind, SensitivityKindInfo> = {
+  'literal-processing': {
+    label: 'Literal processing',
+    placeholder: 'e.g. Takes idioms at face value',
+    guidance: 'The student interprets language literally: remove idioms, sarcasm and figures of speech, and say exactly what is meant.'
+  },
+  'pda': {
+    label: 'Demand avoidance (PDA)',
+    placeholder: 'e.g. Direct questions cause shutdown',
+    guidance: 'The student has Pathological Demand Avoidance: use declarative language, invitations or choices instead of commands or direct questions.'
+  },
+  'anxiety': {
+    label: 'Anxiety',
+    placeholder: 'e.g. Worries about making mistakes in public',
+    guidance: 'The student is prone to anxiety: use reassurance and clear, predictable structure.'
+  },
+  'sensory-trigger': {
+    label: 'Sensory trigger',
+    placeholder: 'e.g. Loud noises, bright lights',
+    guidance: 'Be alert to sensory overwhelm from the triggers listed; a refusal may be a sign of overload rather than defiance.'
+  },
+  'interest': {
+    label: 'Interest',
+    placeholder: 'e.g. Trains and timetables',
+    guidance: 'Where it helps engagement, connect to the student\'s interests.'
+  },
+  'preferred-support': {
+    label: 'Preferred support',
+    placeholder: 'e.g. Visual schedules, private praise'
+  },
+  'other': {
+    label: 'Other',
+    placeholder: 'Anything else worth knowing'
+  }
+};
+
+const KINDS = Object.keys(SENSITIVITY_KINDS) as SensitivityKind[];
+
+export const isSensitivityKind = (value: unknown): value is SensitivityKind =>
+  typeof value === 'string' && (KINDS as string[]).includes(value);
+
+export const createSensitivityTag = (kind: SensitivityKind, notes: string, source: SensitivityTag['source']): SensitivityTag => ({
+  id: generateId(),
+  kind,
+  notes,
+  source
+});
+
+export const hasSensitivity = (tags: SensitivityTag[], kind: SensitivityKind): boolean =>
+  tags.some(tag => tag.kind === kind);
+
+// Profile section for prompts: the tags grouped by kind, then the matching instructions
+export const buildSensitivityContext = (tags: SensitivityTag[]): string => {
+  if (tags.length === 0) return 'Student Needs: None recorded.';
+
+  const present = KINDS.filter(kind => hasSensitivity(tags, kind));
+  const lines = present.map(kind => {
+    const notes = tags.filter(tag => tag.kind === kind).map(tag => tag.notes.trim()).filter(Boolean);
+    return `- ${SENSITIVITY_KINDS[kind].label}${notes.length > 0 ? `: ${notes.join('; ')}` : ''}`;
+  });
+  const guidance = present
+    .map(kind => SENSITIVITY_KINDS[kind].guidance)
+    .filter((line): line is string => !!line)
+    .map(line => `- ${line}`);
+
+  return [
+    'Student Needs:',
+    ...lines,
+    ...(guidance.length > 0 ? ['Adapt for these needs:', ...guidance] : [])
+  ].join('\n');
+};
+
+// Tags for the guidebook prompt, with their source so the AI knows which ones the teacher set
+export const listSensitivitiesForReview = (tags: SensitivityTag[]): string =>
+  tags.length === 0
+    ? 'None recorded.'
+    : tags.map(tag => `- [${tag.kind}] ${tag.notes.trim() || '(no notes)'} (added by ${tag.source === 'ai' ? 'AI' : 'teacher'})`).join('\n');
@@ -0,0 +1,23 @@
+import { ChatMessage, StudentProfile } from '../types';
+import { generateSpeech, describeSpeechVoice } from './geminiService';
+import { speechCacheKey, loadCachedSpeech, saveCachedSpeech } from './storage';
+
+// Generated speech for a message in a student's chat, read from the audio cache when it was
+// made before (which also works offline). Returns null when no audio could be generated.
+// `onGenerating` is called before a network request, so callers can show a spinner.
+export const getMessageSpeech = async (
+  message: ChatMessage,
+  student: StudentProfile,
+  onGenerating?: () => void
+): Promise<string | null> => {
+  const cacheKey = speechCacheKey(student.id, message.id, message.translatedText, describeSpeechVoice(student.voice));
+  const cached = await loadCachedSpeech(cacheKey).catch(() => null);
+  if (cached) return cached;
+
+  onGenerating?.();
+  const audioBase64 = await generateSpeech(message.translatedText, student.voice);
+  if (audioBase64) {
+    saveCachedSpeech(cacheKey, student.id, audioBase64).catch(e => console.error("Failed to cache speech", e));
+  }
+  return audioBase64;
+};
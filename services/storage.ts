@@ -0,0 +1,567 @@
+import { AppData, ChatMessage, StudentProfile, VoiceType } from '../types';
+import { SCHEMA_VERSION, SchemaError, upgradeAppData, validateAppData } from './schema';
+import { EncryptedPayload, PBKDF2_ITERATIONS, generateSalt, deriveKey, encryptJson, decryptJson, isEncryptedPayload } from './crypto';
+import { DEFAULT_SAFEGUARDING_SETTINGS } from './safeguarding';
+
+// IndexedDB repository for AppData.
+// Students and messages are stored as individual records so that a change to one
+// message writes one record, and chat history is only read for the students that are opened.
+// When a passphrase is set, every record's `data` is encrypted; only ids, positions
+// and timestamps stay readable so that records can still be indexed.
+
+const DB_NAME = 'teacher_aid';
+const DB_VERSION = 2;
+
+const STORE_META = 'meta';
+const STORE_STUDENTS = 'students';
+const STORE_MESSAGES = 'messages';
+const STORE_AUDIO = 'audio';
+
+const META_KEY_APP = 'app';
+const META_KEY_ENCRYPTION = 'encryption';
+
+// Legacy localStorage keys, migrated once and then removed
+const STORAGE_KEY_DATA = 'teacher_aid_data_v1';
+const STORAGE_KEY_OLD = 'teacher_aid_profile';
+
+const ENCRYPTION_CHECK_VALUE = 'teacher_aid_unlocked';
+const DEFAULT_AUTO_LOCK_MINUTES = 10;
+
+// Generated speech is about 48 KB per second, so this holds a few hours of replays
+const MAX_AUDIO_CACHE_BYTES = 50 * 1024 * 1024;
+
+const EMPTY_DATA: AppData = {
+  schemaVersion: SCHEMA_VERSION,
+  teacherName: 'Teacher',
+  preferredVoice: VoiceType.AI,
+  students: [],
+  currentStudentId: '',
+  chats: {},
+  classes: [],
+  activeClassId: '',
+  outbox: [],
+  checkFidelity: false,
+  safeguarding: DEFAULT_SAFEGUARDING_SETTINGS,
+  incidentLog: []
+};
+
+type AppMeta = Omit<AppData, 'students' | 'chats'>;
+
+// Record payloads are either plain objects or AES-GCM ciphertext
+type StoredData<T> = T | EncryptedPayload;
+
+interface MetaRecord {
+  key: string;
+  data: StoredData<AppMeta>;
+}
+
+interface EncryptionRecord {
+  key: string;
+  salt: Uint8Array;
+  iterations: number;
+  check: EncryptedPayload; // Decrypts to ENCRYPTION_CHECK_VALUE with the right passphrase
+  autoLockMinutes: number;
+}
+
+interface StudentRecord {
+  id: string;
+  position: number; // Preserves the order of the class list
+  data: StoredData<StudentProfile>;
+}
+
+interface MessageRecord {
+  studentId: string;
+  id: string;
+  timestamp: number;
+  data: StoredData<ChatMessage>;
+}
+
+// Base64 PCM from generateSpeech. Encrypted like everything else, since it speaks the message.
+interface AudioRecord {
+  key: string; // See speechCacheKey
+  studentId: string;
+  size: number; // Length of the base64 text, for the size cap
+  lastUsed: number;
+  data: StoredData<string>;
+}
+
+export type LockState = 'unencrypted' | 'locked' | 'unlocked';
+
+export interface EncryptionSettings {
+  enabled: boolean;
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+// --- Low level helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Each step upgrades from the previous version, so older databases replay every step
+        if (event.oldVersion < 1) {
+          db.createObjectStore(STORE_META, { keyPath: 'key' });
+          db.createObjectStore(STORE_STUDENTS, { keyPath: 'id' });
+          const messages = db.createObjectStore(STORE_MESSAGES, { keyPath: ['studentId', 'id'] });
+          messages.createIndex('byStudentTime', ['studentId', 'timestamp']);
+        }
+        if (event.oldVersion < 2) {
+          const audio = db.createObjectStore(STORE_AUDIO, { keyPath: 'key' });
+          audio.createIndex('byLastUsed', 'lastUsed');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Writes run one after another. Encryption is async and IndexedDB transactions cannot
+// wait for it, so each write encrypts first and only then opens its transaction;
+// the queue keeps those writes from overtaking each other.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => {});
+  return run;
+};
+
+// --- Encryption state ---
+
+// The derived key only ever lives in memory. It is only set or cleared through the write
+// queue, so every write runs with the key that was current when it was queued.
+let activeKey: CryptoKey | null = null;
+
+const LOCKED_MESSAGE = "Data is locked. Enter the passphrase to unlock it.";
+
+const readEncryptionRecord = async (): Promise<EncryptionRecord | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_META, 'readonly');
+  return requestToPromise<EncryptionRecord | undefined>(tx.objectStore(STORE_META).get(META_KEY_ENCRYPTION));
+};
+
+// The key to read or write records with, or null when no passphrase is set. Throws while
+// locked, so nothing is ever written unencrypted into an encrypted database.
+const currentKey = async (): Promise<CryptoKey | null> => {
+  if (activeKey) return activeKey;
+  if (await readEncryptionRecord()) throw new Error(LOCKED_MESSAGE);
+  return null;
+};
+
+const encode = async <T>(key: CryptoKey | null, value: T): Promise<StoredData<T>> => {
+  return key ? encryptJson(key, value) : value;
+};
+
+// With a passphrase set every record must be encrypted; a plain one was not written by this app
+const decode = async <T>(key: CryptoKey | null, stored: StoredData<T>): Promise<T> => {
+  if (!isEncryptedPayload(stored)) {
+    if (key) throw new Error("Found an unencrypted record although a passphrase is set.");
+    return stored;
+  }
+  if (!key) throw new Error(LOCKED_MESSAGE);
+  return decryptJson<T>(key, stored);
+};
+
+export const getLockState = async (): Promise<LockState> => {
+  const record = await readEncryptionRecord();
+  if (!record) return 'unencrypted';
+  return activeKey ? 'unlocked' : 'locked';
+};
+
+export const getEncryptionSettings = async (): Promise<EncryptionSettings> => {
+  const record = await readEncryptionRecord();
+  return {
+    enabled: !!record,
+    autoLockMinutes: record ? record.autoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES
+  };
+};
+
+// Returns false for a wrong passphrase
+export const unlockStorage = async (passphrase: string): Promise<boolean> => {
+  const record = await readEncryptionRecord();
+  if (!record) return true;
+
+  const key = await deriveKey(passphrase, record.salt, record.iterations);
+  try {
+    const check = await decryptJson<string>(key, record.check);
+    if (check !== ENCRYPTION_CHECK_VALUE) return false;
+  } catch (e) {
+    return false;
+  }
+  await enqueueWrite(async () => { activeKey = key; });
+  return true;
+};
+
+// Writes queued before the lock still run with the key; the ones after it are refused
+export const lockStorage = (): Promise<void> => enqueueWrite(async () => {
+  activeKey = null;
+});
+
+// --- Record conversion ---
+
+const toMessageRecord = async (key: CryptoKey | null, studentId: string, message: ChatMessage): Promise<MessageRecord> => ({
+  studentId,
+  id: message.id,
+  timestamp: message.timestamp,
+  data: await encode(key, message)
+});
+
+// Audio loading flags are transient UI state and must not survive a reload
+const fromMessageRecord = async (key: CryptoKey | null, record: MessageRecord): Promise<ChatMessage> => {
+  const message = await decode(key, record.data);
+  return { ...message, isLoadingAudio: false };
+};
+
+const toStudentRecord = async (key: CryptoKey | null, student: StudentProfile, position: number): Promise<StudentRecord> => ({
+  id: student.id,
+  position,
+  data: await encode(key, student)
+});
+
+const splitAppData = (data: AppData): AppMeta => {
+  const { students, chats, ...meta } = data;
+  return meta;
+};
+
+// Encodes the whole data set with `key` and replaces the database contents in one transaction.
+// `encryptionRecord` undefined leaves the passphrase settings untouched, null removes them.
+const writeAll = async (data: AppData, key: CryptoKey | null, encryptionRecord?: EncryptionRecord | null): Promise<void> => {
+  const metaRecord: MetaRecord = { key: META_KEY_APP, data: await encode(key, splitAppData(data)) };
+  const studentRecords = await Promise.all(data.students.map((student, position) => toStudentRecord(key, student, position)));
+  const messageRecords = await Promise.all(
+    Object.entries(data.chats).flatMap(([studentId, chat]) => chat.map(message => toMessageRecord(key, studentId, message)))
+  );
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_META, STORE_STUDENTS, STORE_MESSAGES, STORE_AUDIO], 'readwrite');
+  const meta = tx.objectStore(STORE_META);
+  const students = tx.objectStore(STORE_STUDENTS);
+  const messages = tx.objectStore(STORE_MESSAGES);
+
+  meta.put(metaRecord);
+  if (encryptionRecord) meta.put(encryptionRecord);
+  if (encryptionRecord === null) meta.delete(META_KEY_ENCRYPTION);
+  students.clear();
+  messages.clear();
+  // Cached speech may be under the old key or belong to messages that no longer exist
+  tx.objectStore(STORE_AUDIO).clear();
+  studentRecords.forEach(record => students.put(record));
+  messageRecords.forEach(record => messages.put(record));
+
+  await transactionDone(tx);
+};
+
+// --- Reading ---
+
+export const loadChatHistory = async (studentId: string): Promise<ChatMessage[]> => {
+  const key = await currentKey();
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_MESSAGES, 'readonly');
+  const range = IDBKeyRange.bound([studentId, -Infinity], [studentId, Infinity]);
+  const records = await requestToPromise<MessageRecord[]>(
+    tx.objectStore(STORE_MESSAGES).index('byStudentTime').getAll(range)
+  );
+  return Promise.all(records.map(record => fromMessageRecord(key, record)));
+};
+
+export const loadAllChats = async (): Promise<Record<string, ChatMessage[]>> => {
+  const key = await currentKey();
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_MESSAGES, 'readonly');
+  const records = await requestToPromise<MessageRecord[]>(
+    tx.objectStore(STORE_MESSAGES).index('byStudentTime').getAll()
+  );
+
+  const chats: Record<string, ChatMessage[]> = {};
+  for (const record of records) {
+    (chats[record.studentId] = chats[record.studentId] || []).push(await fromMessageRecord(key, record));
+  }
+  return chats;
+};
+
+const loadProfiles = async (): Promise<{ meta: AppMeta; students: StudentProfile[] } | null> => {
+  const key = await currentKey();
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_META, STORE_STUDENTS], 'readonly');
+  const metaRecord = await requestToPromise<MetaRecord | undefined>(tx.objectStore(STORE_META).get(META_KEY_APP));
+  const studentRecords = await requestToPromise<StudentRecord[]>(tx.objectStore(STORE_STUDENTS).getAll());
+
+  if (!metaRecord) return null;
+
+  const meta = await decode(key, metaRecord.data);
+  const students = await Promise.all(
+    studentRecords
+      .sort((a, b) => a.position - b.position)
+      .map(record => decode(key, record.data))
+  );
+  return { meta, students };
+};
+
+// Loads profiles and settings, but only the chat history of the active student.
+// Other students' histories are fetched on demand with loadChatHistory.
+// Data stored by an older schema version is upgraded in place first.
+export const loadAppData = async (): Promise<AppData | null> => {
+  const profiles = await loadProfiles();
+  if (!profiles) return null;
+
+  // Databases written before versioning have no schemaVersion and are at version 1
+  if ((profiles.meta.schemaVersion ?? 1) < SCHEMA_VERSION) {
+    await upgradeStoredData();
+    return loadAppData();
+  }
+
+  const { meta, students } = profiles;
+  const chats: Record<string, ChatMessage[]> = {};
+  if (meta.currentStudentId && students.some(s => s.id === meta.currentStudentId)) {
+    chats[meta.currentStudentId] = await loadChatHistory(meta.currentStudentId);
+  }
+
+  const data: AppData = { ...meta, students, chats };
+  const issues = validateAppData(data);
+  if (issues.length > 0) {
+    throw new SchemaError("The data stored in this browser is not valid.", issues);
+  }
+  return data;
+};
+
+const loadFullAppData = async (): Promise<AppData | null> => {
+  const profiles = await loadProfiles();
+  if (!profiles) return null;
+  return { ...profiles.meta, students: profiles.students, chats: await loadAllChats() };
+};
+
+// Migrations can touch every message, so the whole data set is read, upgraded and re-written
+const upgradeStoredData = (): Promise<void> => enqueueWrite(async () => {
+  const data = await loadFullAppData();
+  if (!data) return;
+  await writeAll(upgradeAppData(data), await currentKey());
+});
+
+// --- Writing ---
+
+// Writes only what changed between two snapshots of AppData.
+// Objects are compared by reference, which matches how the app updates state immutably.
+// A chat list missing from `chats` means "not loaded", never "empty".
+export const persistChanges = (prev: AppData, next: AppData): Promise<void> => enqueueWrite(async () => {
+  const key = await currentKey();
+  const prevMeta = splitAppData(prev);
+  const nextMeta = splitAppData(next);
+  const metaChanged = (Object.keys(nextMeta) as (keyof AppMeta)[]).some(key => prevMeta[key] !== nextMeta[key])
+    || Object.keys(prevMeta).length !== Object.keys(nextMeta).length;
+  const metaRecord: MetaRecord | null = metaChanged ? { key: META_KEY_APP, data: await encode(key, nextMeta) } : null;
+
+  const studentPuts: StudentRecord[] = [];
+  const studentDeletes: string[] = [];
+  if (prev.students !== next.students) {
+    studentPuts.push(...await Promise.all(next.students.map((student, position) => toStudentRecord(key, student, position))));
+    const remainingIds = new Set(next.students.map(s => s.id));
+    studentDeletes.push(...prev.students.filter(s => !remainingIds.has(s.id)).map(s => s.id));
+  }
+
+  const messagePuts: MessageRecord[] = [];
+  const messageDeletes: [string, string][] = [];
+  if (prev.chats !== next.chats) {
+    for (const [studentId, chat] of Object.entries(next.chats)) {
+      const prevChat = prev.chats[studentId];
+      if (prevChat === chat) continue;
+
+      // A history that was just loaded from the database is re-written as-is, which is harmless
+      const prevById = new Map((prevChat || []).map(m => [m.id, m]));
+      for (const message of chat) {
+        if (prevById.get(message.id) !== message) {
+          messagePuts.push(await toMessageRecord(key, studentId, message));
+        }
+        prevById.delete(message.id);
+      }
+      // Whatever is left was removed from a loaded history
+      prevById.forEach(message => messageDeletes.push([studentId, message.id]));
+    }
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_META, STORE_STUDENTS, STORE_MESSAGES, STORE_AUDIO], 'readwrite');
+  const students = tx.objectStore(STORE_STUDENTS);
+  const messages = tx.objectStore(STORE_MESSAGES);
+  const audio = tx.objectStore(STORE_AUDIO);
+
+  if (metaRecord) tx.objectStore(STORE_META).put(metaRecord);
+  studentPuts.forEach(record => students.put(record));
+  // Removing a student removes their whole history, loaded or not
+  studentDeletes.forEach(id => {
+    students.delete(id);
+    messages.delete(IDBKeyRange.bound([id, ''], [id, '\uffff']));
+    audio.delete(audioKeyRange(id));
+  });
+  messagePuts.forEach(record => messages.put(record));
+  messageDeletes.forEach(([studentId, messageId]) => {
+    messages.delete([studentId, messageId]);
+    audio.delete(audioKeyRange(studentId, messageId));
+  });
+
+  await transactionDone(tx);
+});
+
+// Replaces everything in the database, e.g. when restoring a backup
+export const replaceAllData = (data: AppData): Promise<void> => enqueueWrite(async () => writeAll(data, await currentKey()));
+
+// --- Speech audio cache ---
+
+// FNV-1a, enough to notice that a message's translation changed since its audio was made
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// `voice` identifies the engine and settings that produced the audio, see describeSpeechVoice
+export const speechCacheKey = (studentId: string, messageId: string, text: string, voice: string): string =>
+  `${studentId}/${messageId}/${voice}/${hashText(text)}`;
+
+const audioKeyRange = (studentId: string, messageId?: string): IDBKeyRange => {
+  const prefix = messageId === undefined ? `${studentId}/` : `${studentId}/${messageId}/`;
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+};
+
+// Returns null when nothing is cached or the audio cannot be read (e.g. while locked)
+export const loadCachedSpeech = async (key: string): Promise<string | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise<AudioRecord | undefined>(
+    db.transaction(STORE_AUDIO, 'readonly').objectStore(STORE_AUDIO).get(key)
+  );
+  if (!record) return null;
+
+  try {
+    const audio = await decode(await currentKey(), record.data);
+    // Mark as recently used; a lost update only makes eviction slightly less accurate
+    const tx = db.transaction(STORE_AUDIO, 'readwrite');
+    tx.objectStore(STORE_AUDIO).put({ ...record, lastUsed: Date.now() });
+    return audio;
+  } catch (e) {
+    console.error("Failed to read cached speech", e);
+    return null;
+  }
+};
+
+// Stores generated speech and evicts the least recently played audio beyond the size cap
+export const saveCachedSpeech = (key: string, studentId: string, audio: string): Promise<void> => enqueueWrite(async () => {
+  const record: AudioRecord = { key, studentId, size: audio.length, lastUsed: Date.now(), data: await encode(await currentKey(), audio) };
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_AUDIO, 'readwrite');
+  const store = tx.objectStore(STORE_AUDIO);
+  store.put(record);
+
+  // Walk from the most recently used down; everything past the cap goes
+  let total = 0;
+  const cursorRequest = store.index('byLastUsed').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    total += (cursor.value as AudioRecord).size;
+    if (total > MAX_AUDIO_CACHE_BYTES) cursor.delete();
+    cursor.continue();
+  };
+
+  await transactionDone(tx);
+});
+
+// --- Passphrase management ---
+
+// Sets, changes or (with null) removes the passphrase, re-writing every record under the new key.
+// Changing an existing passphrase requires the data to be unlocked first.
+export const setPassphrase = (passphrase: string | null): Promise<void> => enqueueWrite(async () => {
+  const existing = await readEncryptionRecord();
+  if (existing && !activeKey) {
+    throw new Error("Unlock the data before changing the passphrase.");
+  }
+
+  const data = await loadFullAppData() || EMPTY_DATA;
+
+  if (passphrase === null) {
+    activeKey = null;
+    await writeAll(data, null, null);
+    return;
+  }
+
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const record: EncryptionRecord = {
+    key: META_KEY_ENCRYPTION,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptJson(key, ENCRYPTION_CHECK_VALUE),
+    autoLockMinutes: existing ? existing.autoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES
+  };
+  activeKey = key;
+  await writeAll(data, key, record);
+});
+
+export const setAutoLockMinutes = (minutes: number): Promise<void> => enqueueWrite(async () => {
+  const record = await readEncryptionRecord();
+  if (!record) return;
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  tx.objectStore(STORE_META).put({ ...record, autoLockMinutes: minutes });
+  await transactionDone(tx);
+});
+
+// Deletes the whole database, the only way out when a passphrase has been forgotten
+export const eraseAllData = (): Promise<void> => enqueueWrite(async () => {
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  activeKey = null;
+  await requestToPromise(indexedDB.deleteDatabase(DB_NAME));
+});
+
+// --- One-time migration from localStorage ---
+
+// Either the multi-student data or the single-student profile of the first release;
+// upgradeAppData recognises and migrates both
+const readLegacyLocalStorage = (): unknown => {
+  const saved = localStorage.getItem(STORAGE_KEY_DATA) || localStorage.getItem(STORAGE_KEY_OLD);
+  return saved ? JSON.parse(saved) : null;
+};
+
+// Moves localStorage data into IndexedDB. The old keys are only removed once the
+// write has committed, so a failed migration is retried on the next load.
+export const migrateFromLocalStorage = (): Promise<AppData | null> => enqueueWrite(async () => {
+  const legacyRaw = readLegacyLocalStorage();
+  if (!legacyRaw) return null;
+
+  const legacyData = upgradeAppData(legacyRaw);
+  await writeAll(legacyData, await currentKey());
+  localStorage.removeItem(STORAGE_KEY_DATA);
+  localStorage.removeItem(STORAGE_KEY_OLD);
+  return legacyData;
+});
@@ -0,0 +1,208 @@
+import { ChatMessage, StudentProfile } from '../types';
+import { describeHighStakesTopics } from './highStakes';
+
+// Bilingual transcripts of one student's conversation, for parent meetings and EAL reviews.
+// Produces a print-ready HTML document (saved as PDF from the browser's print dialog) and CSV.
+
+export interface TranscriptRange {
+  from: string; // YYYY-MM-DD in local time, empty for no lower bound
+  to: string; // YYYY-MM-DD in local time, inclusive, empty for no upper bound
+}
+
+export interface TranscriptSource {
+  student: StudentProfile;
+  teacherName: string;
+  messages: ChatMessage[];
+  range: TranscriptRange;
+}
+
+const parseLocalDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Failed and still queued translations are left out, they have nothing to show in the translation column
+export const filterMessagesByDate = (messages: ChatMessage[], range: TranscriptRange): ChatMessage[] => {
+  const from = range.from ? parseLocalDate(range.from).getTime() : -Infinity;
+  // Include the whole of the final day
+  const to = range.to ? parseLocalDate(range.to).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+  return messages
+    .filter(m => !m.status && m.timestamp >= from && m.timestamp < to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const speakerName = (message: ChatMessage, source: TranscriptSource) =>
+  message.sender === 'teacher' ? source.teacherName : source.student.name;
+
+// The teacher writes in English and the student reads their language, and vice versa
+const languagesFor = (message: ChatMessage, student: StudentProfile) =>
+  message.sender === 'teacher'
+    ? { original: 'English', translated: student.language }
+    : { original: student.language, translated: 'English' };
+
+const describeRange = (range: TranscriptRange): string => {
+  const format = (value: string) => parseLocalDate(value).toLocaleDateString();
+  if (range.from && range.to) return `${format(range.from)} – ${format(range.to)}`;
+  if (range.from) return `From ${format(range.from)}`;
+  if (range.to) return `Up to ${format(range.to)}`;
+  return 'Full history';
+};
+
+// --- CSV ---
+
+const CSV_HEADERS = [
+  'Date', 'Time', 'Speaker', 'Role', 'Original Language', 'Original Text',
+  'Translation Language', 'Translated Text', 'Cultural Note', 'Strategy', 'Reasoning', 'High-Stakes'
+];
+
+// For the audit trail: the flagged topics and whether the teacher acknowledged the warning
+const describeHighStakes = (message: ChatMessage): string => {
+  if (!message.highStakes) return '';
+  const { topics, acknowledgedAt } = message.highStakes;
+  return `${describeHighStakesTopics(topics)} (${acknowledgedAt ? `acknowledged ${new Date(acknowledgedAt).toLocaleString()}` : 'not acknowledged'})`;
+};
+
+const csvCell = (value: string | undefined): string => {
+  let text = value ?? '';
+  // Stop spreadsheet apps from evaluating chat text as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildTranscriptCsv = (source: TranscriptSource): string => {
+  const rows = filterMessagesByDate(source.messages, source.range).map(message => {
+    const date = new Date(message.timestamp);
+    const languages = languagesFor(message, source.student);
+    return [
+      date.toLocaleDateString(),
+      date.toLocaleTimeString(),
+      speakerName(message, source),
+      message.sender === 'teacher' ? 'Teacher' : 'Student',
+      languages.original,
+      message.originalText,
+      languages.translated,
+      message.translatedText,
+      message.culturalNote,
+      message.strategy,
+      message.reasoning,
+      describeHighStakes(message)
+    ].map(csvCell).join(',');
+  });
+  // The byte order mark makes Excel read non-Latin scripts correctly
+  return '\uFEFF' + [CSV_HEADERS.join(','), ...rows].join('\r\n');
+};
+
+// --- Printable HTML ---
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const TRANSCRIPT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 12px; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; background: #f3f4f6; padding: 6px 8px; border-bottom: 2px solid #d1d5db; }
+  td { vertical-align: top; padding: 8px; border-bottom: 1px solid #e5e7eb; }
+  tr { page-break-inside: avoid; }
+  .teacher .speaker { color: #4338ca; }
+  .student .speaker { color: #047857; }
+  .speaker { font-weight: 600; white-space: nowrap; }
+  .time { color: #6b7280; white-space: nowrap; }
+  .lang { display: block; color: #9ca3af; font-size: 10px; text-transform: uppercase; letter-spacing: 0.05em; }
+  .note { margin-top: 6px; padding: 4px 6px; background: #fefce8; border-left: 3px solid #facc15; }
+  .insight { margin-top: 6px; color: #6b21a8; }
+  .warning { margin-top: 6px; padding: 4px 6px; background: #fef2f2; border-left: 3px solid #dc2626; color: #991b1b; }
+  .empty { color: #9ca3af; text-align: center; padding: 24px; }
+  @media print { body { margin: 12mm; } th { background: #f3f4f6 !important; -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`;
+
+export const buildTranscriptHtml = (source: TranscriptSource): string => {
+  const { student, teacherName, range } = source;
+  const messages = filterMessagesByDate(source.messages, range);
+
+  const rows = messages.map(message => {
+    const date = new Date(message.timestamp);
+    const languages = languagesFor(message, student);
+    const notes = [
+      message.highStakes ? `<div class="warning"><strong>High-stakes:</strong> ${escapeHtml(describeHighStakes(message))}</div>` : '',
+      message.culturalNote ? `<div class="note"><strong>Cultural note:</strong> ${escapeHtml(message.culturalNote)}</div>` : '',
+      message.strategy ? `<div class="insight"><strong>Strategy:</strong> ${escapeHtml(message.strategy)}</div>` : '',
+      message.reasoning ? `<div class="insight"><strong>Reasoning:</strong> ${escapeHtml(message.reasoning)}</div>` : ''
+    ].join('');
+
+    return `
+      <tr class="${message.sender}">
+        <td class="time">${escapeHtml(date.toLocaleDateString())}<br>${escapeHtml(date.toLocaleTimeString())}</td>
+        <td class="speaker">${escapeHtml(speakerName(message, source))}</td>
+        <td><span class="lang">${escapeHtml(languages.original)}</span><div dir="auto">${escapeHtml(message.originalText)}</div></td>
+        <td><span class="lang">${escapeHtml(languages.translated)}</span><div dir="auto">${escapeHtml(message.translatedText)}</div>${notes}</td>
+      </tr>`;
+  }).join('');
+
+  const title = `Conversation transcript – ${student.name}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">
+    Student: ${escapeHtml(student.name)} (age ${student.age}, ${escapeHtml(student.language)}) •
+    Teacher: ${escapeHtml(teacherName)} •
+    ${escapeHtml(describeRange(range))} •
+    ${messages.length} message${messages.length === 1 ? '' : 's'} •
+    Exported ${escapeHtml(new Date().toLocaleString())}
+  </div>
+  <table>
+    <thead><tr><th>When</th><th>Speaker</th><th>Original</th><th>Translation</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="4" class="empty">No messages in this period.</td></tr>'}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+// --- Output ---
+
+export const transcriptFileName = (source: TranscriptSource, extension: string): string => {
+  const safeName = source.student.name.replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'student';
+  const suffix = [source.range.from, source.range.to].filter(Boolean).join('_to_') || new Date().toISOString().slice(0, 10);
+  return `transcript_${safeName}_${suffix}.${extension}`;
+};
+
+export const downloadTextFile = (contents: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([contents], { type: `${mimeType};charset=utf-8` }), fileName);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Opens the transcript in a new window and shows the print dialog, where it can be saved as PDF.
+// Returns false if a popup blocker prevented the window from opening.
+export const printTranscript = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
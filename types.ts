@@ -3,18 +3,82 @@ export enum VoiceType {
   LOCAL = 'LOCAL'
 }
 
+export enum AIProviderType {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE',
+  MOCK = 'MOCK'
+}
+
 export type SenderType = 'teacher' | 'student';
 
+// See services/communicationMode.ts
+export type CommunicationMode = 'translate' | 'adapt' | 'translate-and-adapt';
+
 export interface StudentProfile {
   id: string;
   name: string;
   language: string;
   age: number;
-  sensitivities: string;
+  mode: CommunicationMode;
+  voice?: StudentVoiceSettings; // How messages are read aloud to this student
+  sensitivities: SensitivityTag[];
   guideBook?: string; // AI Generated guide content
   lastAnalyzedIndex?: number; // Tracks the index of the last message processed for profile updates
+  history?: ProfileRevision[]; // Earlier guidebooks and sensitivities, oldest first, see services/profileHistory.ts
+  pendingChanges?: ProposedChange[]; // AI suggestions waiting for the teacher, see services/profileReview.ts
+}
+
+// Snapshot of a student's guidebook and sensitivities after one change
+export interface ProfileRevision {
+  id: string;
+  timestamp: number;
+  source: 'teacher' | 'ai' | 'migrated'; // 'migrated': the profile as it was before history was kept
+  guideBook: string;
+  sensitivities: SensitivityTag[];
+  restoredFrom?: string; // Id of the revision this one rolled back to
+}
+
+// Per-student speech preferences, e.g. a slower voice for students who need more processing time
+export interface StudentVoiceSettings {
+  geminiVoice?: string; // Prebuilt Gemini voice; empty uses the voice from the AI settings
+  localVoiceURI?: string; // SpeechSynthesisVoice.voiceURI; empty picks a voice for the student's language
+  rate: number; // 1 is normal speed
+  pitch: number; // 1 is the voice's normal pitch (device voices only)
+  volume: number; // 0 to 1
 }
 
+// Kinds of need a student can be tagged with, see services/sensitivities.ts
+export type SensitivityKind = 'literal-processing' | 'pda' | 'anxiety' | 'sensory-trigger' | 'interest' | 'preferred-support' | 'other';
+
+export interface SensitivityTag {
+  id: string;
+  kind: SensitivityKind;
+  notes: string;
+  source: 'teacher' | 'ai'; // Who added it; AI analysis may only propose removing its own tags
+}
+
+// A change to the tags as returned by the AI, before it is checked and queued for review
+export interface SensitivitySuggestion {
+  action: 'add' | 'remove';
+  kind: SensitivityKind;
+  notes: string;
+  evidence: string[]; // Chat lines that prompted it, quoted
+}
+
+// An AI suggestion in the teacher's review queue. Only accepting it changes the profile.
+export interface ProposedChange {
+  id: string;
+  action: 'add' | 'remove';
+  kind: SensitivityKind;
+  notes: string;
+  tagId?: string; // The tag a removal refers to
+  evidence: string[];
+  proposedAt: number;
+}
+
+// Why an AI call failed, see services/aiErrors.ts
+export type AIErrorKind = 'no-key' | 'quota' | 'network' | 'safety' | 'bad-response' | 'unknown';
+
 export interface ChatMessage {
   id: string;
   originalText: string;
@@ -26,24 +90,114 @@ export interface ChatMessage {
   // New fields for AI Assist reasoning
   strategy?: string;
   reasoning?: string;
+  // Set when translation failed; translatedText is then empty and the message can be retried.
+  // 'pending' messages were written offline and wait in the outbox until the connection returns.
+  status?: 'failed' | 'pending';
+  errorKind?: AIErrorKind;
+  checkMeaning?: boolean; // The teacher asked for a fidelity check on this message
+  fidelity?: FidelityCheck;
+  highStakes?: HighStakesFlag;
+  safeguardingIncidentId?: string; // Set when a student message may be a disclosure of harm
+}
+
+// See services/highStakes.ts
+export type HighStakesTopic = 'medical' | 'legal' | 'safeguarding' | 'exclusion' | 'injury';
+
+// Kept on the message for later audit
+export interface HighStakesFlag {
+  topics: HighStakesTopic[];
+  detectedAt: number;
+  acknowledgedAt?: number; // When the teacher confirmed the interpreter warning
+}
+
+// Back-translation of a teacher message, compared with what the teacher wrote (see services/fidelity.ts)
+export interface FidelityCheck {
+  backTranslation: string; // Made without seeing the original
+  driftScore: number; // 0 = same meaning, 100 = unrelated
+  divergences: string[]; // Meaning that was lost, weakened or added
+  checkedAt: number;
+}
+
+export interface FidelityAssessment {
+  driftScore: number;
+  divergences: string[];
+}
+
+// A class or period with its own roster. A student can be on several rosters.
+export interface ClassGroup {
+  id: string;
+  name: string; // e.g. "Year 9 Science - Period 3"
+  subject?: string;
+  glossary?: string; // Subject terms, one per line, optionally "term = preferred rendering"
+  teacherNameOverride?: string; // Used instead of AppData.teacherName for this class
+  studentIds: string[];
 }
 
 export interface AppData {
+  schemaVersion: number; // See services/schema.ts for the version history and migrations
   teacherName: string;
   preferredVoice: VoiceType;
   students: StudentProfile[];
   currentStudentId: string;
   chats: Record<string, ChatMessage[]>;
+  classes: ClassGroup[];
+  activeClassId: string; // Empty when showing all students
+  outbox: OutboxEntry[]; // Messages waiting to be translated, oldest first
+  checkFidelity: boolean; // Back-translate every translated teacher message
+  safeguarding: SafeguardingSettings;
+  incidentLog: IncidentEntry[]; // Append-only and hash-chained, see services/incidentLog.ts
+}
+
+// The school's procedure, shown as soon as a possible disclosure is detected
+export interface SafeguardingSettings {
+  leadName: string; // Designated safeguarding lead (DSL)
+  leadContact: string;
+  escalationSteps: string[];
+}
+
+// One entry of the safeguarding incident log. A disclosure starts an incident; every
+// action the teacher records afterwards is a further entry with the same incidentId.
+export interface IncidentEntry {
+  id: string;
+  incidentId: string;
+  type: 'disclosure' | 'action';
+  timestamp: number;
+  studentId: string;
+  studentName: string; // Kept, so the record survives the student being deleted
+  teacherName: string;
+  messageId?: string;
+  language?: string;
+  originalText?: string; // Verbatim, as the student wrote or said it
+  translatedText?: string;
+  reason?: string; // Why it was flagged
+  action?: string;
+  note?: string;
+  previousHash: string;
+  hash: string;
+}
+
+// A message written while offline, translated once the connection returns
+export interface OutboxEntry {
+  studentId: string;
+  messageId: string;
 }
 
 export interface TranslationResponse {
   translation: string;
   culturalNote?: string;
+  highStakesTopics?: string[]; // Unchecked model output, see services/highStakes.ts
+  possibleDisclosure?: string; // Student messages only; why it may be a safeguarding disclosure
+}
+
+// Progress callbacks for a streamed translation
+export interface TranslationStream {
+  onPartial?: (translation: string) => void; // Translation text received so far
+  signal?: AbortSignal; // Aborting rejects the call with an AbortError
 }
 
 export interface GuideBookResponse {
   guide: string;
-  updatedSensitivities: string;
+  proposedChanges: SensitivitySuggestion[];
 }
 
 export interface CommunicationOption {
@@ -53,3 +207,31 @@ export interface CommunicationOption {
   translatedText: string;
   reasoning: string;
 }
+
+export type AITask = 'translation' | 'options' | 'guideBook' | 'speech';
+
+export type TaskModels = Record<AITask, string>;
+
+// Stored separately from AppData so that backups never carry API keys.
+export interface AISettings {
+  provider: AIProviderType;
+  geminiApiKey: string; // Falls back to the build-time API_KEY when empty
+  geminiModels: TaskModels;
+  geminiVoice: string;
+  openAiBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openAiApiKey: string; // Optional, most local servers ignore it
+  openAiModels: TaskModels;
+  openAiVoice: string;
+}
+
+// The operations every AI backend must support.
+export interface AIProvider {
+  translateText(text: string, teacherName: string, student: StudentProfile, sender: SenderType, classGroup?: ClassGroup, stream?: TranslationStream): Promise<TranslationResponse>;
+  generateSpeech(text: string, voice?: StudentVoiceSettings): Promise<string | null>; // Base64 16-bit PCM at 24kHz, or null to fall back to local TTS
+  generateGuideBook(student: StudentProfile, chats: ChatMessage[]): Promise<GuideBookResponse>;
+  generateCommunicationOptions(intent: string, teacherName: string, student: StudentProfile, chats: ChatMessage[], classGroup?: ClassGroup): Promise<CommunicationOption[]>;
+  backTranslate(text: string, language: string): Promise<string>; // Into English
+  assessFidelity(original: string, backTranslation: string): Promise<FidelityAssessment>;
+  identifyLanguage(transcript: string, heardAs: string, alternative: string): Promise<string | null>; // Which of the two was spoken, null if unsure
+  testConnection(settings: AISettings): Promise<void>; // Rejects with a readable message if the settings don't work
+}